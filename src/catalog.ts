@@ -0,0 +1,306 @@
+import fs from "fs"
+import path from "path"
+import { pathToFileURL } from "url"
+import { Location } from "vscode-languageserver/node"
+import { Parser, Quad } from "n3"
+import { prefixes as zazukoPrefixes } from "@zazuko/rdf-vocabularies"
+import { formatOf, n3Format } from "./formats"
+import { parseRdfXml, parseXml, XML_NAMESPACE, XmlElement } from "./rdfxml"
+import { SyntaxModel } from "./syntax"
+import { namespaceOf, readFileSafe, toFsPath } from "./util"
+
+const CATALOG_NAMESPACE = "urn:oasis:names:tc:entity:xmlns:xml:catalog"
+const OWL = "http://www.w3.org/2002/07/owl#"
+const RDF_TYPE = "http://www.w3.org/1999/02/22-rdf-syntax-ns#type"
+
+const ONTOLOGY_EXTENSIONS = new Set([".ttl", ".turtle", ".nt", ".n3", ".owl", ".rdf"])
+// Protégé writes `catalog-v001.xml`; any `catalog*.xml` in a registered directory counts
+const CATALOG_FILE = /^catalog.*\.xml$/i
+
+export type Ontology = {
+	file: string
+	// Subjects typed `owl:Ontology`, with their version IRIs
+	iris: string[]
+	// Objects of `owl:imports`
+	imports: string[]
+	quads: Quad[]
+	prefixes: Record<string, string>
+}
+
+// Terms of one namespace across the catalog, keyed by the prefix the ontologies declare for it
+export type CatalogVocabulary = {
+	prefix: string
+	namespace: string
+	quads: Quad[]
+	terms: Set<string>
+}
+
+/**
+ * Ontologies registered in the `ontologies` setting: files, directories (searched
+ * recursively) and OASIS XML catalogs, whose mapped files are loaded too. Namespaces bundled
+ * with `@zazuko/rdf-vocabularies` are left to the bundle.
+ */
+export class OntologyCatalog {
+	private ontologies: Ontology[] = []
+	// Ontology IRI to local file, from catalogs and the ontologies' own declarations
+	private mappings: Map<string, string> = new Map()
+	private rewrites: Array<{ prefix: string; path: string }> = []
+	// File of the first loaded ontology describing each IRI
+	private definedIn: Map<string, string> = new Map()
+
+	constructor(private root: string | undefined) {}
+
+	get loaded(): readonly Ontology[] {
+		return this.ontologies
+	}
+
+	/**
+	 * Replaces the catalog with the given entries. Files that are missing or do not parse
+	 * are skipped; the returned messages say why.
+	 */
+	async load(entries: string[]): Promise<string[]> {
+		const problems: string[] = []
+		const files = new Set<string>()
+		const catalogs = new Set<string>()
+		this.ontologies = []
+		this.mappings = new Map()
+		this.rewrites = []
+		this.definedIn = new Map()
+
+		const visitCatalog = async (file: string) => {
+			if (catalogs.has(file)) return
+			catalogs.add(file)
+			let text: string
+			try {
+				text = await fs.promises.readFile(file, "utf8")
+			} catch {
+				problems.push(`Ontology catalog not found: ${file}`)
+				return
+			}
+			try {
+				const { mapped, next } = this.readCatalog(text, file)
+				for (const target of mapped) files.add(target)
+				for (const catalog of next) await visitCatalog(catalog)
+			} catch (err) {
+				problems.push(`Ignoring ontology catalog ${file}: ${err instanceof Error ? err.message : String(err)}`)
+			}
+		}
+
+		for (const entry of entries) {
+			const target = path.resolve(this.root ?? process.cwd(), entry)
+			const stat = await fs.promises.stat(target).catch(() => null)
+			if (!stat) problems.push(`Ontology path not found: ${target}`)
+			else if (stat.isDirectory()) {
+				for (const file of await collectFiles(target)) {
+					if (CATALOG_FILE.test(path.basename(file))) await visitCatalog(file)
+					else files.add(file)
+				}
+			} else if (path.extname(target).toLowerCase() === ".xml") await visitCatalog(target)
+			else files.add(target)
+		}
+
+		for (const file of files) {
+			const loaded = await this.add(file)
+			if (typeof loaded === "string") problems.push(loaded)
+		}
+		return problems
+	}
+
+	/**
+	 * Loads one more ontology file, unless it is loaded already. Returns the reason when the
+	 * file is missing or does not parse.
+	 */
+	async add(file: string): Promise<Ontology | string> {
+		const existing = this.ontologies.find((o) => o.file === file)
+		if (existing) return existing
+		const text = await fs.promises.readFile(file, "utf8").catch(() => null)
+		if (text === null) return `Ontology file not found: ${file}`
+		let ontology: Ontology
+		try {
+			ontology = parseOntology(file, text)
+		} catch (err) {
+			return `Ignoring ontology ${file}: ${err instanceof Error ? err.message : String(err)}`
+		}
+		this.ontologies.push(ontology)
+		for (const iri of ontology.iris) if (!this.mappings.has(iri)) this.mappings.set(iri, file)
+		for (const quad of ontology.quads) {
+			if (quad.subject.termType === "NamedNode" && !this.definedIn.has(quad.subject.value)) {
+				this.definedIn.set(quad.subject.value, file)
+			}
+		}
+		return ontology
+	}
+
+	ontologyAt(file: string): Ontology | undefined {
+		return this.ontologies.find((o) => o.file === file)
+	}
+
+	/**
+	 * Where a loaded ontology describes the IRI: its subject in Turtle-family files, the node
+	 * element naming it in RDF/XML, else the top of the file.
+	 */
+	locate(iri: string): Location | null {
+		const file = this.definedIn.get(iri)
+		const text = file ? readFileSafe(file) : null
+		if (!file || text === null) return null
+		const uri = pathToFileURL(file).toString()
+		const top = { uri, range: { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } } }
+		if (!isRdfXml(text)) {
+			const subject = new SyntaxModel(uri, text).subjects.find((s) => s.iri === iri)
+			return subject ? { uri, range: subject.range } : top
+		}
+		const local = iri.slice(namespaceOf(iri).length)
+		for (const match of text.matchAll(/\brdf:(about|ID)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+			const value = match[2] ?? match[3]
+			const names = match[1] === "ID" ? value === local : value === iri || value.endsWith(`#${local}`) || value.endsWith(`;${local}`)
+			if (!names) continue
+			const before = text.slice(0, match.index).split("\n")
+			const start = { line: before.length - 1, character: before[before.length - 1].length }
+			return { uri, range: { start, end: { line: start.line, character: start.character + match[0].length } } }
+		}
+		return top
+	}
+
+	/**
+	 * Local file for an ontology IRI: a catalog `uri` entry, a `rewriteURI` rule or a loaded
+	 * ontology declaring that IRI.
+	 */
+	resolve(iri: string): string | undefined {
+		const mapped = this.mappings.get(iri) ?? this.mappings.get(iri.replace(/[#/]$/, ""))
+		if (mapped) return mapped
+		const rewrite = this.rewrites
+			.filter((r) => iri.startsWith(r.prefix))
+			.sort((a, b) => b.prefix.length - a.prefix.length)[0]
+		return rewrite ? path.join(rewrite.path, iri.slice(rewrite.prefix.length)) : undefined
+	}
+
+	/**
+	 * Groups the defined terms by namespace. A namespace takes the prefix an ontology declares
+	 * for it, else one derived from its last path segment; prefixes are unique and never shadow
+	 * a bundled vocabulary.
+	 */
+	vocabularies(): CatalogVocabulary[] {
+		const bundledNamespaces = new Set(Object.values(zazukoPrefixes as Record<string, string>))
+		const declared = new Map<string, string>()
+		for (const ontology of this.ontologies) {
+			for (const [prefix, namespace] of Object.entries(ontology.prefixes)) {
+				if (prefix && !declared.has(namespace)) declared.set(namespace, prefix)
+			}
+		}
+
+		const byNamespace = new Map<string, CatalogVocabulary>()
+		const taken = new Set(Object.keys(zazukoPrefixes))
+		for (const ontology of this.ontologies) {
+			for (const quad of ontology.quads) {
+				if (quad.subject.termType !== "NamedNode") continue
+				const namespace = namespaceOf(quad.subject.value)
+				const localName = quad.subject.value.slice(namespace.length)
+				if (!localName || bundledNamespaces.has(namespace)) continue
+				let vocabulary = byNamespace.get(namespace)
+				if (!vocabulary) {
+					const prefix = uniquePrefix(declared.get(namespace) ?? derivePrefix(namespace), taken)
+					taken.add(prefix)
+					vocabulary = { prefix, namespace, quads: [], terms: new Set() }
+					byNamespace.set(namespace, vocabulary)
+				}
+				vocabulary.quads.push(quad)
+				vocabulary.terms.add(localName)
+			}
+		}
+		return [...byNamespace.values()]
+	}
+
+	private readCatalog(text: string, file: string): { mapped: string[]; next: string[] } {
+		const mapped: string[] = []
+		const next: string[] = []
+		const visit = (element: XmlElement, base: string) => {
+			const xmlBase = element.attributes.get(`${XML_NAMESPACE}base`)
+			if (xmlBase !== undefined) base = new URL(xmlBase, base).toString()
+			const target = (reference: string) => toFsPath(new URL(reference, base).toString())
+			const name = element.attributes.get("name")
+			const uri = element.attributes.get("uri")
+			switch (catalogElement(element)) {
+				case "uri":
+					if (name && uri) {
+						this.mappings.set(name, target(uri))
+						mapped.push(target(uri))
+					}
+					break
+				case "rewriteURI": {
+					const prefix = element.attributes.get("uriStartString")
+					const rewrite = element.attributes.get("rewritePrefix")
+					if (prefix && rewrite) this.rewrites.push({ prefix, path: target(rewrite) })
+					break
+				}
+				case "nextCatalog": {
+					const catalog = element.attributes.get("catalog")
+					if (catalog) next.push(target(catalog))
+					break
+				}
+			}
+			for (const child of element.children) visit(child, base)
+		}
+		const { root } = parseXml(text)
+		if (catalogElement(root) !== "catalog") throw new Error("not an OASIS XML catalog")
+		visit(root, pathToFileURL(file).toString())
+		return { mapped: mapped.filter((f) => fs.existsSync(f)), next }
+	}
+}
+
+/**
+ * Parses an ontology file by content: markup is read as RDF/XML, anything else with the n3
+ * parser in the format of its extension (Turtle for `.owl`).
+ */
+export function parseOntology(file: string, text: string): Ontology {
+	const baseIRI = pathToFileURL(file).toString()
+	let quads: Quad[]
+	let prefixes: Record<string, string> = {}
+	if (isRdfXml(text)) {
+		;({ quads, prefixes } = parseRdfXml(text, baseIRI))
+	} else {
+		const parser = new Parser({ format: n3Format(formatOf(file)), baseIRI })
+		quads = parser.parse(text, null, (prefix, namespace) => {
+			if (!(prefix in prefixes)) prefixes[prefix] = namespace.value
+		})
+	}
+	const typed = quads.filter((q) => q.predicate.value === RDF_TYPE && q.object.value === `${OWL}Ontology`)
+	const versions = quads.filter((q) => q.predicate.value === `${OWL}versionIRI`)
+	const iris = [...typed.map((q) => q.subject.value), ...versions.map((q) => q.object.value)]
+	const imports = quads.filter((q) => q.predicate.value === `${OWL}imports`).map((q) => q.object.value)
+	return { file, iris, imports, quads, prefixes }
+}
+
+// Markup, as opposed to Turtle starting with an `<IRI>`
+function isRdfXml(text: string): boolean {
+	return text.trimStart().startsWith("<") && !/^\s*<[^>\s]*>/.test(text)
+}
+
+function catalogElement(element: XmlElement): string {
+	return element.name.startsWith(CATALOG_NAMESPACE) ? element.name.slice(CATALOG_NAMESPACE.length) : element.name
+}
+
+async function collectFiles(dir: string): Promise<string[]> {
+	const files: string[] = []
+	const entries = await fs.promises.readdir(dir, { withFileTypes: true }).catch(() => [])
+	for (const entry of entries) {
+		const full = path.join(dir, entry.name)
+		if (entry.isDirectory()) files.push(...(await collectFiles(full)))
+		else if (CATALOG_FILE.test(entry.name) || ONTOLOGY_EXTENSIONS.has(path.extname(entry.name).toLowerCase())) {
+			files.push(full)
+		}
+	}
+	return files
+}
+
+function derivePrefix(namespace: string): string {
+	const segments = namespace.replace(/[#/]+$/, "").split(/[/#:]/)
+	const last = segments[segments.length - 1].toLowerCase().replace(/\.[a-z]+$/, "").replace(/[^a-z0-9_-]/g, "")
+	return /^[a-z]/.test(last) ? last : "ns"
+}
+
+function uniquePrefix(prefix: string, taken: Set<string>): string {
+	if (!taken.has(prefix)) return prefix
+	let n = 2
+	while (taken.has(`${prefix}${n}`)) n++
+	return `${prefix}${n}`
+}
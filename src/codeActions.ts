@@ -0,0 +1,204 @@
+import {
+	CodeAction,
+	CodeActionKind,
+	CodeActionParams,
+	Diagnostic,
+	Position,
+	TextEdit,
+	WorkspaceEdit,
+} from "vscode-languageserver/node"
+import { TextDocument } from "vscode-languageserver-textdocument"
+import { CompletionEngine } from "./completion"
+import { tokenize } from "./lexer"
+import { editDistance } from "./util"
+
+/**
+ * Codes attached to the diagnostics produced by `basicDiagnostics`; code actions key off them.
+ */
+export const DiagnosticCode = {
+	UndeclaredPrefix: "undeclared-prefix",
+	UnknownTerm: "unknown-term",
+	MissingTerminator: "missing-terminator",
+	DuplicatePrefix: "duplicate-prefix",
+	UnusedPrefix: "unused-prefix",
+	UnsupportedSyntax: "unsupported-syntax",
+	UnresolvedImport: "unresolved-import",
+	CyclicImport: "cyclic-import",
+	ConflictingPrefix: "conflicting-prefix",
+	InconsistentPrefix: "inconsistent-prefix",
+	NonCanonicalPrefix: "non-canonical-prefix",
+} as const
+
+export type CodeActionSources = {
+	// Namespace IRI for a prefix that is not declared in the document (defaults, Zazuko, catalog)
+	knownNamespace: (prefix: string) => string | undefined
+	// Loaded vocabulary terms by cache key: the Zazuko prefix or the catalog's, if any
+	vocabularyTerms: (prefix: string) => Iterable<string> | undefined
+	// Every diagnostic of the document, used by "fix all"
+	diagnose: (doc: TextDocument) => Diagnostic[]
+	// Relabels a prefix throughout the document; null when the new label is taken
+	renamePrefix: (doc: TextDocument, from: string, to: string) => WorkspaceEdit | null
+	// Deletes the prefix declaration whose label is at the position, leaving the rest of its lines
+	removePrefix: (doc: TextDocument, position: Position) => TextEdit | null
+}
+
+export class CodeActionEngine {
+	constructor(private completion: CompletionEngine, private sources: CodeActionSources) {}
+
+	provide(doc: TextDocument, params: CodeActionParams): CodeAction[] {
+		const only = params.context.only
+		const wants = (kind: string) => !only || only.some((o) => kind === o || kind.startsWith(`${o}.`))
+		const actions: CodeAction[] = []
+
+		if (wants(CodeActionKind.QuickFix)) {
+			for (const diagnostic of params.context.diagnostics) {
+				actions.push(...this.quickFixes(doc, diagnostic))
+			}
+		}
+		if (wants(CodeActionKind.SourceFixAll)) {
+			const fixAll = this.fixAll(doc)
+			if (fixAll) actions.push(fixAll)
+		}
+		return actions
+	}
+
+	private quickFixes(doc: TextDocument, diagnostic: Diagnostic): CodeAction[] {
+		const data = (diagnostic.data || {}) as {
+			prefix?: string
+			term?: string
+			vocabulary?: string
+			replacement?: string
+			canonical?: string
+			namespace?: string
+			previous?: string
+		}
+		const uri = doc.uri
+		const fix = (title: string, edits: TextEdit[], isPreferred = false): CodeAction => ({
+			title,
+			kind: CodeActionKind.QuickFix,
+			diagnostics: [diagnostic],
+			isPreferred,
+			edit: { changes: { [uri]: edits } },
+		})
+
+		switch (diagnostic.code) {
+			case DiagnosticCode.UndeclaredPrefix: {
+				const edit = data.prefix !== undefined ? this.prefixInsertion(doc, data.prefix) : null
+				return edit ? [fix(`Declare prefix '${data.prefix}:'`, [edit], true)] : []
+			}
+			case DiagnosticCode.UnusedPrefix:
+			case DiagnosticCode.DuplicatePrefix: {
+				// Removing a rebinding would change the IRIs of the prefixed names after it
+				if (data.previous !== undefined) return []
+				const edit = this.sources.removePrefix(doc, diagnostic.range.start)
+				const verb = diagnostic.code === DiagnosticCode.UnusedPrefix ? "Remove unused" : "Remove duplicate"
+				return edit ? [fix(`${verb} prefix '${data.prefix ?? ""}:'`, [edit], true)] : []
+			}
+			case DiagnosticCode.MissingTerminator: {
+				const line = diagnostic.range.start.line
+				return [
+					fix("Terminate statement with '.'", [this.terminatorInsertion(doc, line, ".")], true),
+					fix("Continue statement with ';'", [this.terminatorInsertion(doc, line, ";")]),
+				]
+			}
+			case DiagnosticCode.UnknownTerm: {
+				if (data.prefix === undefined || data.term === undefined) return []
+				return this.suggestTerms(data.vocabulary ?? data.prefix, data.term).map((candidate, idx) =>
+					fix(`Did you mean '${data.prefix}:${candidate}'?`, [TextEdit.replace(diagnostic.range, `${data.prefix}:${candidate}`)], idx === 0)
+				)
+			}
+			case DiagnosticCode.UnsupportedSyntax: {
+				if (!data.replacement) return []
+				return [fix(`Replace with ${data.replacement}`, [TextEdit.replace(diagnostic.range, data.replacement)], true)]
+			}
+			case DiagnosticCode.NonCanonicalPrefix: {
+				if (data.prefix === undefined) return []
+				if (data.namespace) {
+					const edit = TextEdit.replace(diagnostic.range, `<${data.namespace}>`)
+					return [fix(`Bind '${data.prefix}:' to <${data.namespace}>`, [edit], true)]
+				}
+				const edit = data.canonical !== undefined ? this.sources.renamePrefix(doc, data.prefix, data.canonical) : null
+				const edits = edit?.changes?.[uri]
+				return edits ? [fix(`Rename prefix '${data.prefix}:' to '${data.canonical}:'`, edits, true)] : []
+			}
+			default:
+				return []
+		}
+	}
+
+	/**
+	 * Applies every unambiguous fix at once: missing prefix declarations, removal of unused
+	 * declarations and of repeated identical ones, unknown terms with a single close match, and
+	 * expansion of shorthands that N-Triples and N-Quads do not allow.
+	 */
+	private fixAll(doc: TextDocument): CodeAction | null {
+		const edits: TextEdit[] = []
+		const declared = new Set<string>()
+		const removed = new Set<string>()
+
+		for (const diagnostic of this.sources.diagnose(doc)) {
+			const data = (diagnostic.data || {}) as {
+				prefix?: string
+				term?: string
+				vocabulary?: string
+				replacement?: string
+				previous?: string
+			}
+			if (diagnostic.code === DiagnosticCode.UndeclaredPrefix && data.prefix !== undefined && !declared.has(data.prefix)) {
+				const edit = this.prefixInsertion(doc, data.prefix)
+				if (edit) {
+					declared.add(data.prefix)
+					edits.push(edit)
+				}
+			} else if (
+				diagnostic.code === DiagnosticCode.UnusedPrefix ||
+				(diagnostic.code === DiagnosticCode.DuplicatePrefix && data.previous === undefined)
+			) {
+				// An unused duplicate is reported twice
+				const { line, character } = diagnostic.range.start
+				const edit = removed.has(`${line}:${character}`) ? null : this.sources.removePrefix(doc, diagnostic.range.start)
+				if (edit) {
+					removed.add(`${line}:${character}`)
+					edits.push(edit)
+				}
+			} else if (diagnostic.code === DiagnosticCode.UnknownTerm && data.prefix !== undefined && data.term !== undefined) {
+				const candidates = this.suggestTerms(data.vocabulary ?? data.prefix, data.term)
+				if (candidates.length === 1) edits.push(TextEdit.replace(diagnostic.range, `${data.prefix}:${candidates[0]}`))
+			} else if (diagnostic.code === DiagnosticCode.UnsupportedSyntax && data.replacement) {
+				edits.push(TextEdit.replace(diagnostic.range, data.replacement))
+			}
+		}
+
+		if (edits.length === 0) return null
+		const edit: WorkspaceEdit = { changes: { [doc.uri]: edits } }
+		return { title: "Fix all auto-fixable problems", kind: CodeActionKind.SourceFixAll, edit }
+	}
+
+	private prefixInsertion(doc: TextDocument, prefix: string): TextEdit | null {
+		const iri = this.sources.knownNamespace(prefix)
+		if (!iri) return null
+		return this.completion.createPrefixInsertion(doc.getText(), prefix, iri)
+	}
+
+	// Inserts before a trailing comment, right after the last code character of the line
+	private terminatorInsertion(doc: TextDocument, line: number, terminator: string): TextEdit {
+		const text = doc.getText({ start: { line, character: 0 }, end: { line: line + 1, character: 0 } }).replace(/\r?\n$/, "")
+		const comment = tokenize(text).find((t) => t.type === "comment")
+		const end = text.slice(0, comment ? comment.start : text.length).trimEnd().length
+		return TextEdit.insert({ line, character: end }, ` ${terminator}`)
+	}
+
+	private suggestTerms(prefix: string, term: string): string[] {
+		const terms = this.sources.vocabularyTerms(prefix)
+		if (!terms) return []
+		const limit = Math.max(2, Math.floor(term.length / 3))
+		const lower = term.toLowerCase()
+		const scored: Array<{ candidate: string; distance: number }> = []
+		for (const candidate of terms) {
+			const distance = candidate.toLowerCase() === lower ? 0 : editDistance(term, candidate)
+			if (distance <= limit) scored.push({ candidate, distance })
+		}
+		scored.sort((a, b) => a.distance - b.distance || a.candidate.localeCompare(b.candidate))
+		return scored.slice(0, 3).map((s) => s.candidate)
+	}
+}
@@ -0,0 +1,76 @@
+import { CodeLens, Location, Position, SymbolKind } from "vscode-languageserver/node"
+import { HierarchyEngine } from "./hierarchy"
+import { Indexer } from "./indexer"
+import { SymbolEngine } from "./symbols"
+
+/**
+ * `ShowReferences` is the command of every lens, run by the server: it answers with the
+ * locations and opens the only one through `window/showDocument`. Its arguments are those of
+ * VS Code's `editor.action.showReferences` (uri, position, locations), so a client can show
+ * them as its own references list instead; in Neovim:
+ *
+ *     vim.lsp.commands["turtle.showReferences"] = function(command)
+ *       local items = vim.lsp.util.locations_to_items(command.arguments[3], "utf-16")
+ *       vim.fn.setqflist({}, " ", { title = command.title, items = items })
+ *       vim.cmd.copen()
+ *     end
+ */
+export const CodeLensCommand = {
+	ShowReferences: "turtle.showReferences",
+} as const
+
+type LensKind = "references" | "instances" | "predicate"
+
+type LensData = { uri: string; iri: string; position: Position; kind: LensKind }
+
+/**
+ * Usage counts above each subject definition: mentions elsewhere, instances of classes and
+ * predicate uses of properties, across the workspace. Counts are filled in on resolve.
+ */
+export class CodeLensEngine {
+	constructor(private indexer: Indexer, private symbols: SymbolEngine, private hierarchy: HierarchyEngine) {}
+
+	lenses(uri: string): CodeLens[] {
+		const lenses: CodeLens[] = []
+		for (const subject of this.indexer.getDocumentSubjects(uri)) {
+			const range = { start: subject.range.start, end: subject.range.start }
+			const lens = (kind: LensKind): CodeLens => ({
+				range,
+				data: { uri, iri: subject.iri, position: subject.range.start, kind } satisfies LensData,
+			})
+			lenses.push(lens("references"))
+			const kind = this.symbols.symbolKind(subject.iri)
+			if (kind === SymbolKind.Class) lenses.push(lens("instances"))
+			else if (kind === SymbolKind.Property) lenses.push(lens("predicate"))
+		}
+		return lenses
+	}
+
+	resolve(lens: CodeLens): CodeLens {
+		const data = lens.data as LensData
+		const locations = this.locations(data)
+		const count = locations.length
+		const title =
+			data.kind === "references"
+				? `${count} ${count === 1 ? "reference" : "references"}`
+				: data.kind === "instances"
+					? `${count} ${count === 1 ? "instance" : "instances"}`
+					: `used as predicate ${count === 1 ? "once" : `${count} times`}`
+		return { ...lens, command: { title, command: CodeLensCommand.ShowReferences, arguments: [data.uri, data.position, locations] } }
+	}
+
+	private locations({ iri, kind }: LensData): Location[] {
+		if (kind === "instances") return this.hierarchy.instances(iri)
+		if (kind === "predicate") return this.indexer.getPredicateUsages(iri).map(({ uri, range }) => ({ uri, range }))
+		// Mentions other than the statements that describe the term
+		const definitions = new Set(this.indexer.getSubjects(iri).map((loc) => key(loc)))
+		return this.indexer
+			.getSymbols(iri)
+			.filter((loc) => !definitions.has(key(loc)))
+			.map(({ uri, range }) => ({ uri, range }))
+	}
+}
+
+function key({ uri, range }: Location): string {
+	return `${uri}:${range.start.line}:${range.start.character}`
+}
@@ -1,6 +1,9 @@
 import {
   CompletionItemKind,
   CompletionItem,
+  InsertTextFormat,
+  Range,
+  SymbolKind,
   TextDocument,
   TextDocumentPositionParams,
   MarkupKind,
@@ -8,6 +11,10 @@ import {
 } from "vscode-languageserver/node"
 import { getCommonCompletionItemsGivenNamespaces } from "stardog-language-utils"
 import { Indexer } from "./indexer"
+import { CatalogVocabulary } from "./catalog"
+import { LanguageValue } from "./hover"
+import { LABEL_PREDICATES, SymbolEngine } from "./symbols"
+import { Expectation, RDF_TYPE, SyntaxModel } from "./syntax"
 import { abbreviateWithPrefixes, currentWord, currentWordRange, detectPrefixAtPosition, extractPrefix } from "./util"
 
 // UPDATED: Import the main factory function and prefixes
@@ -16,6 +23,65 @@ import { vocabularies, prefixes } from '@zazuko/rdf-vocabularies'
 // Common vocabularies we want to preload for instant access
 const COMMON_VOCABS = ['rdf', 'rdfs', 'owl', 'xsd', 'skos', 'sh', 'dcterms', 'foaf', 'schema'];
 
+// Queries get their own keywords and declare prefixes SPARQL-style
+export type Dialect = "turtle" | "sparql"
+
+const RDF = "http://www.w3.org/1999/02/22-rdf-syntax-ns#";
+const RDFS = "http://www.w3.org/2000/01/rdf-schema#";
+const OWL = "http://www.w3.org/2002/07/owl#";
+const XSD = "http://www.w3.org/2001/XMLSchema#";
+
+// Ranges whose values are themselves classes or properties (rdfs:domain, rdfs:subClassOf, ...)
+const CLASS_RANGES = new Set([`${RDFS}Class`, `${OWL}Class`]);
+const PROPERTY_RANGES = new Set([`${RDF}Property`, `${OWL}ObjectProperty`, `${OWL}DatatypeProperty`]);
+
+// Snippet bodies for literal objects, keyed by datatype; others get a typed string
+const LITERAL_SNIPPETS: Record<string, string> = {
+  [`${XSD}string`]: '"$1"',
+  [`${RDFS}Literal`]: '"$1"',
+  [`${RDF}langString`]: '"$1"@${2:en}',
+  [`${XSD}boolean`]: "${1|true,false|}",
+  [`${XSD}integer`]: "${1:0}",
+  [`${XSD}decimal`]: "${1:0.0}",
+  [`${XSD}double`]: "${1:0.0E0}",
+};
+
+type Category = "class" | "property";
+
+// The category is looked up on demand: for workspace subjects that takes their rdf:types
+type Accepts = (item: CompletionItem, category: () => Category | undefined) => boolean;
+
+// The parts of a Zazuko dataset or catalog quad that vocabulary items are built from
+type VocabularyQuad = { subject: { value: string }, predicate: { value: string }, object: { value: string, language?: string } };
+
+const SPARQL_KEYWORDS = [
+  "SELECT", "CONSTRUCT", "DESCRIBE", "ASK", "WHERE", "FROM", "NAMED", "GRAPH", "OPTIONAL", "UNION",
+  "MINUS", "FILTER", "BIND", "VALUES", "SERVICE", "DISTINCT", "REDUCED", "ORDER BY", "GROUP BY",
+  "HAVING", "LIMIT", "OFFSET", "INSERT", "DELETE", "WITH", "PREFIX", "BASE",
+];
+
+function isDatatype(iri: string): boolean {
+  return iri.startsWith(XSD) || iri === `${RDFS}Literal` || iri === `${RDF}langString`
+}
+
+function literalSnippet(datatype: string, declared: Record<string, string>, replaceRange: Range | undefined, index: number): CompletionItem {
+  const abbreviated = abbreviateWithPrefixes(datatype, declared)
+  const spelled = abbreviated === datatype ? `<${datatype}>` : abbreviated
+  const snippet = LITERAL_SNIPPETS[datatype] ?? `"$1"^^${spelled}`
+  return {
+    label: snippet
+      .replace(/\$\{\d+\|([^}]*)\|\}/g, (_, choices: string) => choices.split(",").join(" | "))
+      .replace(/\$\{\d+:([^}]*)\}/g, "$1")
+      .replace(/\$\d+/g, "…"),
+    kind: CompletionItemKind.Snippet,
+    detail: `${spelled} literal`,
+    insertTextFormat: InsertTextFormat.Snippet,
+    textEdit: replaceRange ? { newText: snippet, range: replaceRange } : undefined,
+    insertText: replaceRange ? undefined : snippet,
+    sortText: `000_${index}`,
+  }
+}
+
 export class CompletionEngine {
   // Cache the processed completion items.
   private cachedVocabs: Map<string, CompletionItem[]> = new Map();
@@ -23,7 +89,10 @@ export class CompletionEngine {
   // Track ongoing fetch requests to prevent duplicate loading
   private loadingPromises: Map<string, Promise<void>> = new Map();
 
-  constructor(private indexer: Indexer) {
+  // Vocabularies registered from the local ontology catalog: prefix -> namespace
+  private localNamespaces: Map<string, string> = new Map();
+
+  constructor(private indexer: Indexer, private symbols: SymbolEngine) {
     // Fire-and-forget preload
     this.preloadVocabularies();
   }
@@ -38,6 +107,13 @@ export class CompletionEngine {
     await Promise.all(COMMON_VOCABS.map(prefix => this.loadVocabularyIntoCache(prefix)));
   }
 
+  /**
+   * Loads additional vocabularies, e.g. the ones listed in the server settings.
+   */
+  public async preload(prefixesToLoad: string[]) {
+    await Promise.all(prefixesToLoad.map(prefix => this.loadVocabularyIntoCache(prefix)));
+  }
+
   /**
    * PUBLIC API: Call this method from your `documents.onDidOpen` or `documents.onDidChangeContent` handler.
    * It scans the document for prefixes (e.g. "@prefix foaf: ...") and loads the corresponding vocabulary
@@ -101,64 +177,7 @@ export class CompletionEngine {
 
         if (!dataset || !namespaceUri) return;
 
-        const items: CompletionItem[] = [];
-        const termData = new Map<string, { kind: CompletionItemKind, docs: string[], label: string }>();
-
-        for (const quad of dataset) {
-          const subject = quad.subject.value;
-
-          // Only process terms strictly within this namespace
-          if (!subject.startsWith(namespaceUri)) continue;
-
-          // Extract local name (e.g., "Person" from "http://xmlns.com/foaf/0.1/Person")
-          const localName = subject.substring(namespaceUri.length);
-          if (!localName) continue;
-
-          if (!termData.has(localName)) {
-            termData.set(localName, {
-              kind: CompletionItemKind.Property,
-              docs: [],
-              label: localName
-            });
-          }
-
-          const data = termData.get(localName)!;
-          const pred = quad.predicate.value;
-          const obj = quad.object.value;
-
-          // Heuristics to determine Icon/Kind
-          if (pred === 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type') {
-            if (obj.includes('Class') || obj.includes('Shape')) {
-              data.kind = CompletionItemKind.Class;
-            } else if (obj.includes('Property')) {
-              data.kind = CompletionItemKind.Property;
-            }
-          }
-
-          // Capture documentation
-          if (pred === 'http://www.w3.org/2000/01/rdf-schema#comment' ||
-            pred === 'http://www.w3.org/2004/02/skos/core#definition' ||
-            pred === 'http://purl.org/dc/terms/description') {
-            if (quad.object.value) {
-              data.docs.push(quad.object.value);
-            }
-          }
-        }
-
-        // Convert processed data to LSP CompletionItems
-        for (const [localName, data] of termData) {
-          items.push({
-            label: `${prefix}:${localName}`,
-            kind: data.kind,
-            detail: `${prefix} ${(CompletionItemKind as any)[data.kind]}`,
-            documentation: {
-              kind: MarkupKind.Markdown,
-              value: data.docs.join('\n\n') || `Term from ${prefix} vocabulary.`
-            },
-            data: { localName, prefix }
-          });
-        }
-
+        const items = this.vocabularyItems(prefix, namespaceUri, dataset);
         this.cachedVocabs.set(prefix, items);
       } catch (err) {
         console.error(`Error loading vocabulary ${prefix}:`, err);
@@ -173,14 +192,140 @@ export class CompletionEngine {
     return loadPromise;
   }
 
+  /**
+   * Completion items for the terms a vocabulary defines within its namespace, with their kind,
+   * documentation and range guessed from the statements about them.
+   */
+  private vocabularyItems(prefix: string, namespaceUri: string, quads: Iterable<VocabularyQuad>): CompletionItem[] {
+    const items: CompletionItem[] = [];
+    const termData = new Map<string, { kind: CompletionItemKind, docs: string[], label: string, labels: LanguageValue[], range?: string }>();
+
+    for (const quad of quads) {
+      const subject = quad.subject.value;
+
+      // Only process terms strictly within this namespace
+      if (!subject.startsWith(namespaceUri)) continue;
+
+      // Extract local name (e.g., "Person" from "http://xmlns.com/foaf/0.1/Person")
+      const localName = subject.substring(namespaceUri.length);
+      if (!localName) continue;
+
+      if (!termData.has(localName)) {
+        termData.set(localName, {
+          kind: CompletionItemKind.Property,
+          docs: [],
+          label: localName,
+          labels: []
+        });
+      }
+
+      const data = termData.get(localName)!;
+      const pred = quad.predicate.value;
+      const obj = quad.object.value;
+
+      // Heuristics to determine Icon/Kind
+      if (pred === 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type') {
+        if (obj.includes('Class') || obj.includes('Shape')) {
+          data.kind = CompletionItemKind.Class;
+        } else if (obj.includes('Property')) {
+          data.kind = CompletionItemKind.Property;
+        }
+      }
+
+      if (pred === `${RDFS}range` && !data.range) {
+        data.range = obj;
+      }
+
+      // Display labels, kept with their language for inlay hints
+      if (LABEL_PREDICATES.includes(pred)) {
+        data.labels.push({ value: obj, language: quad.object.language });
+      }
+
+      // Capture documentation
+      if (pred === 'http://www.w3.org/2000/01/rdf-schema#comment' ||
+        pred === 'http://www.w3.org/2004/02/skos/core#definition' ||
+        pred === 'http://purl.org/dc/terms/description') {
+        if (quad.object.value) {
+          data.docs.push(quad.object.value);
+        }
+      }
+    }
+
+    // Convert processed data to LSP CompletionItems
+    for (const [localName, data] of termData) {
+      items.push({
+        label: `${prefix}:${localName}`,
+        kind: data.kind,
+        detail: `${prefix} ${(CompletionItemKind as any)[data.kind]}`,
+        documentation: {
+          kind: MarkupKind.Markdown,
+          value: data.docs.join('\n\n') || `Term from ${prefix} vocabulary.`
+        },
+        data: { localName, prefix, range: data.range, labels: data.labels }
+      });
+    }
+    return items;
+  }
+
+  /**
+   * Replaces the vocabularies of the local ontology catalog. They are cached like the Zazuko
+   * ones, under the prefix the catalog chose, and found by namespace when a document binds
+   * them to another label.
+   */
+  public registerVocabularies(vocabularies: CatalogVocabulary[]) {
+    for (const prefix of this.localNamespaces.keys()) this.cachedVocabs.delete(prefix);
+    this.localNamespaces.clear();
+    for (const { prefix, namespace, quads } of vocabularies) {
+      this.cachedVocabs.set(prefix, this.vocabularyItems(prefix, namespace, quads));
+      this.localNamespaces.set(prefix, namespace);
+    }
+  }
+
+  /**
+   * Labels a loaded vocabulary gives the term, with their language tags.
+   */
+  public vocabularyLabels(iri: string): LanguageValue[] {
+    return this.vocabularyTerm(iri)?.data?.labels ?? [];
+  }
+
+  // Namespace of a cached vocabulary, local catalog first
+  private vocabularyNamespace(prefix: string): string | undefined {
+    return this.localNamespaces.get(prefix) ?? (prefixes as any)[prefix];
+  }
+
+  // Catalog vocabulary bound to a namespace, whatever label the document gave it
+  private localPrefixFor(namespace: string | undefined): string | undefined {
+    if (!namespace) return undefined;
+    for (const [prefix, bound] of this.localNamespaces) {
+      if (bound === namespace) return prefix;
+    }
+    return undefined;
+  }
+
   // UPDATED: Build is now async to allow waiting for lazy-loaded vocabs
-  async build(params: TextDocumentPositionParams, doc: TextDocument, namespaces: any[], namespaceMap: Record<string, string>): Promise<CompletionItem[]> {
+  async build(
+    params: TextDocumentPositionParams,
+    doc: TextDocument,
+    model: SyntaxModel,
+    namespaceMap: Record<string, string>,
+    dialect: Dialect = "turtle"
+  ): Promise<CompletionItem[]> {
     const text = doc.getText()
-    const subjectSet = this.collectSubjectSet(text)
+    const namespaces = model.prefixes
+    // A query has no subjects of its own; its terms come from the workspace
+    const subjectSet = new Set(dialect === "sparql" ? [] : model.subjects.map((s) => s.surface))
     const current = currentWord(doc, params.position) || ""
     const currentPrefix = detectPrefixAtPosition(doc, params.position, current)
     const replaceRange = currentWordRange(doc, params.position)
-    const globalSubjects = this.indexer.collectGlobalSubjects(currentPrefix || "")
+    // Names under an undeclared prefix cannot spell any workspace subject
+    const globalSubjects = !currentPrefix
+      ? this.indexer.collectGlobalSubjects()
+      : namespaceMap[currentPrefix]
+        ? this.indexer.collectGlobalSubjects(namespaceMap[currentPrefix])
+        : []
+    // What the grammar expects before the word being typed decides which items fit
+    const expectation = model.expectationAt(replaceRange ? doc.offsetAt(replaceRange.start) : doc.offsetAt(params.position))
+    const categories = new Map<string, Category>()
 
     // 1. Prefix Keywords (e.g., "rdf:", "foaf:")
     const prefixItems = namespaces.map(({ prefix, iri }) => {
@@ -195,7 +340,10 @@ export class CompletionEngine {
     })
 
     // 2. Syntax Keywords
-    const keywordItems = [
+    const keywordItems = dialect === "sparql" ? [
+      ...SPARQL_KEYWORDS.map((keyword) => ({ label: keyword, kind: CompletionItemKind.Keyword, insertText: `${keyword} ` })),
+      { label: "a", kind: CompletionItemKind.Keyword, detail: "rdf:type shortcut", insertText: "a " },
+    ] : [
       { label: "@prefix", kind: CompletionItemKind.Keyword, detail: "Declare namespace prefix", insertText: "@prefix " },
       { label: "@base", kind: CompletionItemKind.Keyword, detail: "Set base IRI", insertText: "@base " },
       { label: "a", kind: CompletionItemKind.Keyword, detail: "rdf:type shortcut", insertText: "a " },
@@ -204,8 +352,26 @@ export class CompletionEngine {
     ]
 
     // 3. Local Subjects
-    const subjectItems = Array.from(new Set([...subjectSet, ...globalSubjects])).map((subject) => {
-      const display = abbreviateWithPrefixes(subject, namespaceMap)
+    const subjectIris = new Map<string, string>()
+    for (const subject of model.subjects) {
+      if (subjectSet.has(subject.surface)) subjectIris.set(subject.surface, subject.iri)
+    }
+    const subjectDisplays = globalSubjects.map((iri) => {
+      // Workspace subjects are IRIs; spell them the way this document can
+      const abbreviated = abbreviateWithPrefixes(iri, namespaceMap)
+      const display = abbreviated === iri ? `<${iri}>` : abbreviated
+      subjectIris.set(display, iri)
+      return display
+    })
+    // Vocabulary categories take precedence; subjects are only classified once they pass the
+    // prefix filter
+    const categoryOf = (label: string): Category | undefined => {
+      const iri = subjectIris.get(label)
+      if (categories.has(label) || !iri) return categories.get(label)
+      const kind = this.symbols.symbolKind(iri)
+      return kind === SymbolKind.Class ? "class" : kind === SymbolKind.Property ? "property" : undefined
+    }
+    const subjectItems = Array.from(new Set([...subjectSet, ...subjectDisplays])).map((display) => {
       return {
         label: display,
         kind: CompletionItemKind.Reference,
@@ -215,10 +381,13 @@ export class CompletionEngine {
     })
 
     // 4. Stardog/Common Utils items
+    const commonItems = getCommonCompletionItemsGivenNamespaces(namespaceMap)
     const vocabItemsRaw = [
-      ...(getCommonCompletionItemsGivenNamespaces(namespaceMap).classes || []),
-      ...(getCommonCompletionItemsGivenNamespaces(namespaceMap).properties || []),
+      ...(commonItems.classes || []),
+      ...(commonItems.properties || []),
     ]
+    for (const item of commonItems.classes || []) categories.set(item.label, "class")
+    for (const item of commonItems.properties || []) categories.set(item.label, "property")
 
     const normalizeVocab = (item: any) => {
       const label = item.label || item.insertText || ""
@@ -235,8 +404,12 @@ export class CompletionEngine {
     // 5. Merge all items
     // Pass existing prefixes (keys of namespaceMap) to handle auto-import
     // FIX: Use 'namespaces' (explicit declarations) instead of 'namespaceMap' (which includes implicit defaults)
-    const declaredPrefixes = new Set(namespaces.map((n: any) => n.prefix));
-    const loadedVocabItems = await this.vocabFromPrefix(currentPrefix, replaceRange, declaredPrefixes, text);
+    const declaredPrefixes = new Set(namespaces.map((n) => n.prefix));
+    const loadedVocabItems = await this.vocabFromPrefix(currentPrefix, replaceRange, declaredPrefixes, text, dialect, namespaceMap[currentPrefix]);
+    for (const item of loadedVocabItems) {
+      if (item.kind === CompletionItemKind.Class) categories.set(item.label, "class")
+      else if (item.kind === CompletionItemKind.Property) categories.set(item.label, "property")
+    }
 
     let allItems = [
       ...vocabItemsRaw.map(normalizeVocab),
@@ -260,6 +433,14 @@ export class CompletionEngine {
       });
     }
 
+    // 5b. Position Awareness
+    const positional = this.forPosition(expectation, model, replaceRange)
+    allItems = allItems.filter((item) => positional.accepts(item, () => categoryOf(item.label)))
+    const preferred = new Set(positional.instances.map((iri) => {
+      const abbreviated = abbreviateWithPrefixes(iri, namespaceMap)
+      return abbreviated === iri ? `<${iri}>` : abbreviated
+    }))
+
     // 6. Professional Sorting Logic
     const queryLower = current.toLowerCase();
 
@@ -289,6 +470,11 @@ export class CompletionEngine {
         bucket = "100";
       }
 
+      // Instances of the predicate's range come before everything else
+      if (preferred.has(label)) {
+        bucket = "001";
+      }
+
       return {
         ...item,
         sortText: `${bucket}_${label}`
@@ -304,24 +490,87 @@ export class CompletionEngine {
       deduped.push(item)
     }
 
-    return deduped.sort((a, b) => (a.sortText || "").localeCompare(b.sortText || ""))
+    return [...positional.snippets, ...deduped.sort((a, b) => (a.sortText || "").localeCompare(b.sortText || ""))]
   }
 
-  private collectSubjectSet(text: string): Set<string> {
-    const lines = text.split(/\r?\n/)
-    const subjects = new Set<string>()
+  /**
+   * Which items fit where the cursor is: classes after `a`/`rdf:type` (and for class-valued
+   * properties), properties as predicates, literal snippets for datatype ranges and the
+   * instances of an object property's range. Prefix labels fit wherever a name does.
+   */
+  private forPosition(expectation: Expectation, model: SyntaxModel, replaceRange: Range | undefined) {
+    const isPrefixLabel = (item: CompletionItem) => item.kind === CompletionItemKind.Keyword && item.label.endsWith(":")
+    const isKeyword = (item: CompletionItem) => item.kind === CompletionItemKind.Keyword && !isPrefixLabel(item)
+    const only = (wanted: Category): Accepts => (item, category) => isPrefixLabel(item) || category() === wanted
+    let accepts: Accepts = () => true
+    let snippets: CompletionItem[] = []
+    let instances: string[] = []
+
+    if (expectation.role === "subject") {
+      accepts = (item) => item.label !== "a"
+    } else if (expectation.role === "predicate") {
+      accepts = (item, category) => item.label === "a" || only("property")(item, category)
+    } else if (expectation.role === "object" && expectation.predicate) {
+      const ranges = expectation.predicate === RDF_TYPE ? [`${RDFS}Class`] : this.rangesOf(expectation.predicate)
+      const datatypes = ranges.filter(isDatatype)
+      if (ranges.some((range) => CLASS_RANGES.has(range))) {
+        accepts = only("class")
+      } else if (ranges.some((range) => PROPERTY_RANGES.has(range))) {
+        accepts = only("property")
+      } else if (datatypes.length > 0 || this.isDatatypeProperty(expectation.predicate)) {
+        accepts = () => false
+        const declared = model.prefixMap()
+        snippets = (datatypes.length > 0 ? datatypes : [`${RDFS}Literal`]).map((datatype, i) =>
+          literalSnippet(datatype, declared, replaceRange, i)
+        )
+      } else {
+        accepts = (item) => !isKeyword(item)
+        instances = this.instancesOf(ranges)
+      }
+    } else if (expectation.role === "object") {
+      accepts = (item) => !isKeyword(item)
+    }
+    return { accepts, snippets, instances }
+  }
 
-    lines.forEach((line) => {
-      const trimmed = line.trim()
-      if (!trimmed || trimmed.startsWith("@") || trimmed.startsWith("#")) return
+  // rdfs:range of a property as stated in the workspace, else in its vocabulary
+  private rangesOf(property: string): string[] {
+    const ranges = this.indexer.getObjects(property, `${RDFS}range`).filter((t) => !t.literal).map((t) => t.object)
+    if (ranges.length > 0) return ranges
+    const range = this.vocabularyTerm(property)?.data?.range
+    return range ? [range] : []
+  }
 
-      const subjectMatch = trimmed.match(/^([<A-Za-z][^\s>]*)/)
-      if (subjectMatch) {
-        subjects.add(subjectMatch[1])
-      }
-    })
+  private isDatatypeProperty(property: string): boolean {
+    return this.indexer.getObjects(property, RDF_TYPE).some((t) => t.object === `${OWL}DatatypeProperty`)
+  }
 
-    return subjects
+  private vocabularyTerm(iri: string): CompletionItem | undefined {
+    for (const [prefix, items] of this.cachedVocabs) {
+      const namespace = this.vocabularyNamespace(prefix)
+      if (!namespace || !iri.startsWith(namespace)) continue
+      const localName = iri.slice(namespace.length)
+      const item = items.find((i) => i.data?.localName === localName)
+      if (item) return item
+    }
+    return undefined
+  }
+
+  // Workspace subjects typed with one of the classes or any of their subclasses
+  private instancesOf(classes: string[]): string[] {
+    const visited = new Set(classes)
+    const queue = [...classes]
+    const instances = new Set<string>()
+    while (queue.length > 0) {
+      for (const triple of this.indexer.getIncoming(queue.shift()!)) {
+        if (triple.predicate === RDF_TYPE) instances.add(triple.subject)
+        else if (triple.predicate === `${RDFS}subClassOf` && !visited.has(triple.subject)) {
+          visited.add(triple.subject)
+          queue.push(triple.subject)
+        }
+      }
+    }
+    return [...instances]
   }
 
   /**
@@ -333,11 +582,21 @@ export class CompletionEngine {
     currentPrefix: string, 
     replaceRange: any, 
     existingPrefixes: Set<string>,
-    docText: string
+    docText: string,
+    dialect: Dialect,
+    currentNamespace?: string
   ): Promise<CompletionItem[]> {
     let items: CompletionItem[] = [];
+    const localPrefix = this.localPrefixFor(currentNamespace);
 
-    if (currentPrefix) {
+    if (localPrefix && localPrefix !== currentPrefix) {
+      // A catalog vocabulary the document spells with its own label
+      items = (this.cachedVocabs.get(localPrefix) || []).map((item) => ({
+        ...item,
+        label: `${currentPrefix}:${item.data.localName}`,
+        data: { ...item.data, prefix: currentPrefix },
+      }));
+    } else if (currentPrefix) {
       // Strict mode: User has typed "owl:", so we only show "owl" terms
       // If not in cache, try to load it now
       if (!this.cachedVocabs.has(currentPrefix) && (currentPrefix in vocabularies || (prefixes as any)[currentPrefix])) {
@@ -368,9 +627,9 @@ export class CompletionEngine {
       if (itemPrefix && !existingPrefixes.has(itemPrefix)) {
         // This prefix is known by Zazuko but NOT in the document.
         // Add an edit to insert it.
-        const namespaceUri = (prefixes as any)[itemPrefix];
+        const namespaceUri = this.vocabularyNamespace(itemPrefix);
         if (namespaceUri) {
-          result.additionalTextEdits = [this.createPrefixInsertion(docText, itemPrefix, namespaceUri)];
+          result.additionalTextEdits = [this.createPrefixInsertion(docText, itemPrefix, namespaceUri, dialect)];
           // Add detail to show user it will be imported
           result.detail = `${result.detail} (Auto-Import)`;
         }
@@ -384,7 +643,11 @@ export class CompletionEngine {
    * Retrieves documentation for a specific term from the loaded vocabularies.
    * Used for Hover support.
    */
-  public async getTermDocumentation(prefix: string, term: string): Promise<MarkupKind | string | any | undefined> {
+  public async getTermDocumentation(prefix: string, term: string, namespace?: string): Promise<MarkupKind | string | any | undefined> {
+    // The catalog knows the namespace under its own prefix
+    const localPrefix = this.localPrefixFor(namespace);
+    if (localPrefix) prefix = localPrefix;
+
     // Ensure vocab is loaded
     if (!this.cachedVocabs.has(prefix) && (prefix in vocabularies || (prefixes as any)[prefix])) {
       await this.loadVocabularyIntoCache(prefix);
@@ -400,11 +663,11 @@ export class CompletionEngine {
   }
 
   /**
-   * Calculates where to insert a new @prefix declaration.
+   * Calculates where to insert a new @prefix declaration (PREFIX in queries).
    * Looks for the last existing @prefix or PREFIX line and appends after it.
    * Defaults to top of file if none found.
    */
-  private createPrefixInsertion(text: string, prefix: string, iri: string): TextEdit {
+  public createPrefixInsertion(text: string, prefix: string, iri: string, dialect: Dialect = "turtle"): TextEdit {
     const lines = text.split(/\r?\n/);
     let lastPrefixLine = -1;
 
@@ -419,8 +682,8 @@ export class CompletionEngine {
     // Insert after the last prefix, or at line 0 if none
     const insertLine = lastPrefixLine + 1;
     
-    // Use standard Turtle syntax
-    const newText = `@prefix ${prefix}: <${iri}> .\n`;
+    // Use standard Turtle syntax, or the only one SPARQL has
+    const newText = dialect === "sparql" ? `PREFIX ${prefix}: <${iri}>\n` : `@prefix ${prefix}: <${iri}> .\n`;
 
     return {
       range: {
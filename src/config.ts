@@ -0,0 +1,207 @@
+import fs from "fs"
+import path from "path"
+import { Diagnostic, DiagnosticSeverity } from "vscode-languageserver/node"
+import { ModeString } from "millan"
+import { DEFAULT_INDEXING_OPTIONS, IndexingOptions } from "./indexer"
+
+export const CONFIG_FILE = ".turtle-lsp.json"
+// Section requested through `workspace/configuration`
+export const CONFIG_SECTION = "turtle"
+
+export type RuleSeverity = "error" | "warning" | "information" | "hint" | "off"
+
+export type InlayHintSettings = {
+	// Label of the referenced term after identifiers whose local name does not already say it
+	labels: boolean
+	// Expanded IRI after prefixed names
+	iris: boolean
+}
+
+export type TurtleSettings = {
+	// Prefixes available in every document on top of the built-in ones
+	prefixes: Record<string, string>
+	// The labels and namespaces the team agreed on; declarations that bind a registered label
+	// to another namespace, or a registered namespace to another label, are reported
+	prefixRegistry: Record<string, string>
+	// Zazuko vocabulary prefixes loaded at startup for completion and term validation
+	vocabularies: string[]
+	// Severity overrides keyed by diagnostic code, which for lint checks is the rule id;
+	// "off" disables the rule
+	severity: Record<string, RuleSeverity>
+	parserMode: ModeString
+	// Accept RDF-star quoted triples and annotations; when off they are reported as errors
+	rdfStar: boolean
+	// Language tags preferred for labels and descriptions, most preferred first; empty means
+	// the editor's locale
+	languages: string[]
+	// Local ontology files, directories and OASIS XML catalogs (`catalog-v001.xml`) used like
+	// the bundled vocabularies; relative paths start at the workspace root
+	ontologies: string[]
+	inlayHints: InlayHintSettings
+	indexing: IndexingOptions
+}
+
+export const DEFAULT_SETTINGS: TurtleSettings = {
+	prefixes: {},
+	prefixRegistry: {},
+	vocabularies: [],
+	severity: {},
+	parserMode: "standard",
+	rdfStar: true,
+	languages: [],
+	ontologies: [],
+	inlayHints: { labels: true, iris: false },
+	indexing: DEFAULT_INDEXING_OPTIONS,
+}
+
+type SettingsLayer = Partial<Omit<TurtleSettings, "indexing" | "inlayHints">> & {
+	indexing?: Partial<IndexingOptions>
+	inlayHints?: Partial<InlayHintSettings>
+}
+
+/**
+ * Effective settings, layered as built-in defaults < client settings < the project's
+ * `.turtle-lsp.json`, so that a checked-in file wins over individual editor setups.
+ * Maps (`prefixes`, `prefixRegistry`, `severity`, `inlayHints`, `indexing`) merge per key; lists
+ * (`vocabularies`, `languages`, `ontologies`) replace.
+ */
+export class Configuration {
+	private client: SettingsLayer = {}
+	private project: SettingsLayer = {}
+	private current: TurtleSettings = DEFAULT_SETTINGS
+
+	constructor(private root: string | undefined) {}
+
+	get settings(): TurtleSettings {
+		return this.current
+	}
+
+	get projectFile(): string | undefined {
+		return this.root ? path.join(this.root, CONFIG_FILE) : undefined
+	}
+
+	setClientSettings(raw: unknown) {
+		this.client = parseSettings(raw)
+		this.current = merge(this.client, this.project)
+	}
+
+	/**
+	 * Re-reads the project file. A missing file is not an error; an unreadable or invalid one
+	 * is ignored and the returned message explains why.
+	 */
+	loadProjectFile(): string | null {
+		const file = this.projectFile
+		let error: string | null = null
+		this.project = {}
+		if (file && fs.existsSync(file)) {
+			try {
+				this.project = parseSettings(JSON.parse(fs.readFileSync(file, "utf8")))
+			} catch (err) {
+				error = `Ignoring ${CONFIG_FILE}: ${err instanceof Error ? err.message : String(err)}`
+			}
+		}
+		this.current = merge(this.client, this.project)
+		return error
+	}
+}
+
+/**
+ * Applies the configured severities: rules set to "off" are dropped, others are re-levelled.
+ * Diagnostics without a configured code keep their own severity.
+ */
+export function applySeverities(diagnostics: Diagnostic[], severities: Record<string, RuleSeverity>): Diagnostic[] {
+	const result: Diagnostic[] = []
+	for (const diagnostic of diagnostics) {
+		const configured = typeof diagnostic.code === "string" ? severities[diagnostic.code] : undefined
+		if (configured === "off") continue
+		result.push(configured ? { ...diagnostic, severity: SEVERITIES[configured] } : diagnostic)
+	}
+	return result
+}
+
+const SEVERITIES: Record<Exclude<RuleSeverity, "off">, DiagnosticSeverity> = {
+	error: DiagnosticSeverity.Error,
+	warning: DiagnosticSeverity.Warning,
+	information: DiagnosticSeverity.Information,
+	hint: DiagnosticSeverity.Hint,
+}
+
+function merge(...layers: SettingsLayer[]): TurtleSettings {
+	const settings: TurtleSettings = {
+		...DEFAULT_SETTINGS,
+		prefixes: { ...DEFAULT_SETTINGS.prefixes },
+		prefixRegistry: { ...DEFAULT_SETTINGS.prefixRegistry },
+		severity: { ...DEFAULT_SETTINGS.severity },
+		inlayHints: { ...DEFAULT_SETTINGS.inlayHints },
+		indexing: { ...DEFAULT_SETTINGS.indexing },
+	}
+	for (const layer of layers) {
+		if (layer.prefixes) Object.assign(settings.prefixes, layer.prefixes)
+		if (layer.prefixRegistry) Object.assign(settings.prefixRegistry, layer.prefixRegistry)
+		if (layer.severity) Object.assign(settings.severity, layer.severity)
+		if (layer.inlayHints) Object.assign(settings.inlayHints, layer.inlayHints)
+		if (layer.indexing) Object.assign(settings.indexing, layer.indexing)
+		if (layer.vocabularies) settings.vocabularies = layer.vocabularies
+		if (layer.languages) settings.languages = layer.languages
+		if (layer.ontologies) settings.ontologies = layer.ontologies
+		if (layer.parserMode) settings.parserMode = layer.parserMode
+		if (layer.rdfStar !== undefined) settings.rdfStar = layer.rdfStar
+	}
+	return settings
+}
+
+// Keeps only well-typed fields so a typo in one setting does not discard the others
+function parseSettings(raw: unknown): SettingsLayer {
+	if (!isRecord(raw)) return {}
+	const layer: SettingsLayer = {}
+	if (isRecord(raw.prefixes)) layer.prefixes = stringValues(raw.prefixes)
+	if (isRecord(raw.prefixRegistry)) layer.prefixRegistry = stringValues(raw.prefixRegistry)
+	if (isStringArray(raw.vocabularies)) layer.vocabularies = raw.vocabularies
+	if (isStringArray(raw.languages)) layer.languages = raw.languages
+	if (isStringArray(raw.ontologies)) layer.ontologies = raw.ontologies
+	if (isRecord(raw.severity)) {
+		layer.severity = {}
+		for (const [code, value] of Object.entries(raw.severity)) {
+			if (typeof value === "string" && (value === "off" || value in SEVERITIES)) {
+				layer.severity[code] = value as RuleSeverity
+			}
+		}
+	}
+	if (raw.parserMode === "standard" || raw.parserMode === "stardog") layer.parserMode = raw.parserMode
+	if (typeof raw.rdfStar === "boolean") layer.rdfStar = raw.rdfStar
+	if (isRecord(raw.inlayHints)) {
+		const { labels, iris } = raw.inlayHints
+		const inlayHints: Partial<InlayHintSettings> = {}
+		if (typeof labels === "boolean") inlayHints.labels = labels
+		if (typeof iris === "boolean") inlayHints.iris = iris
+		layer.inlayHints = inlayHints
+	}
+	if (isRecord(raw.indexing)) {
+		const { maxFiles, skipDirectories, include, exclude, cache, cacheDirectory } = raw.indexing
+		const indexing: Partial<IndexingOptions> = {}
+		if (typeof maxFiles === "number" && maxFiles >= 0) indexing.maxFiles = maxFiles
+		if (isStringArray(skipDirectories)) indexing.skipDirectories = skipDirectories
+		if (isStringArray(include)) indexing.include = include
+		if (isStringArray(exclude)) indexing.exclude = exclude
+		if (typeof cache === "boolean") indexing.cache = cache
+		if (typeof cacheDirectory === "string") indexing.cacheDirectory = cacheDirectory
+		layer.indexing = indexing
+	}
+	return layer
+}
+
+function stringValues(record: Record<string, unknown>): Record<string, string> {
+	const result: Record<string, string> = {}
+	for (const [key, value] of Object.entries(record)) {
+		if (typeof value === "string") result[key] = value
+	}
+	return result
+}
+
+function isStringArray(value: unknown): value is string[] {
+	return Array.isArray(value) && value.every((v) => typeof v === "string")
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value)
+}
@@ -0,0 +1,77 @@
+import path from "path"
+
+export type RdfFormat = "turtle" | "trig" | "ntriples" | "nquads" | "n3"
+
+const EXTENSIONS: Record<string, RdfFormat> = {
+	".ttl": "turtle",
+	".turtle": "turtle",
+	".trig": "trig",
+	".nt": "ntriples",
+	".nq": "nquads",
+	".n3": "n3",
+}
+
+const LANGUAGE_IDS: Record<string, RdfFormat> = {
+	turtle: "turtle",
+	trig: "trig",
+	ntriples: "ntriples",
+	"n-triples": "ntriples",
+	nquads: "nquads",
+	"n-quads": "nquads",
+	n3: "n3",
+	notation3: "n3",
+}
+
+// Format names as understood by the n3 parser, also used in messages
+export const FORMAT_NAMES: Record<RdfFormat, string> = {
+	turtle: "Turtle",
+	trig: "TriG",
+	ntriples: "N-Triples",
+	nquads: "N-Quads",
+	n3: "N3",
+}
+
+/**
+ * Format option for the n3 parser: the format's own grammar with RDF-star allowed. n3 reads the
+ * last word of the option, so "Turtle*" would leave no format at all and parse permissively.
+ */
+export function n3Format(format: RdfFormat): string {
+	return `${FORMAT_NAMES[format]}star`
+}
+
+export const RDF_FILE_GLOB = "**/*.{ttl,turtle,trig,nt,nq,n3}"
+
+/**
+ * Format of a document: the editor's language id when it names one, otherwise the file
+ * extension, otherwise Turtle.
+ */
+export function formatOf(uri: string, languageId?: string): RdfFormat {
+	const byLanguage = languageId ? LANGUAGE_IDS[languageId.toLowerCase()] : undefined
+	return byLanguage ?? EXTENSIONS[path.extname(uri).toLowerCase()] ?? "turtle"
+}
+
+const SPARQL_EXTENSIONS = new Set([".rq", ".sparql"])
+
+/**
+ * SPARQL queries are served next to the RDF formats but are never indexed: the language id
+ * decides when the editor sends one, otherwise the extension.
+ */
+export function isSparql(uri: string, languageId?: string): boolean {
+	const language = languageId?.toLowerCase()
+	if (language === "sparql") return true
+	if (language && language in LANGUAGE_IDS) return false
+	return SPARQL_EXTENSIONS.has(path.extname(uri).toLowerCase())
+}
+
+export function isRdfFile(name: string): boolean {
+	return path.extname(name).toLowerCase() in EXTENSIONS
+}
+
+// One statement per line, absolute IRIs only: no directives, prefixed names or abbreviations
+export function isLineBased(format: RdfFormat): boolean {
+	return format === "ntriples" || format === "nquads"
+}
+
+export function hasGraphs(format: RdfFormat): boolean {
+	return format === "trig" || format === "nquads"
+}
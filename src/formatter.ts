@@ -0,0 +1,412 @@
+import { FormattingOptions, Position, Range, TextEdit } from "vscode-languageserver/node"
+import { TextDocument } from "vscode-languageserver-textdocument"
+import { Token, tokenize } from "./lexer"
+
+type PrefixStyle = "turtle" | "sparql" | "preserve"
+
+type Item = {
+	kind: "directive" | "triples" | "comment"
+	tokens: Token[]
+	start: number
+	end: number
+	blankBefore: boolean
+}
+
+class FormatError extends Error {}
+
+/**
+ * Pretty-prints Turtle: one predicate per line under its subject, multi-line blank node
+ * property lists, inline collections, an aligned prefix block, and comments kept in place.
+ * Documents that are not well-formed are left untouched.
+ */
+export class FormattingEngine {
+	format(doc: TextDocument, options: FormattingOptions): TextEdit[] {
+		const text = doc.getText()
+		let formatted: string
+		try {
+			formatted = this.render(text, this.splitItems(text, tokenize(text)), options)
+		} catch (err) {
+			if (err instanceof FormatError) return []
+			throw err
+		}
+		if (formatted.length > 0 && !formatted.endsWith("\n")) formatted += "\n"
+		if (formatted === text) return []
+		return [TextEdit.replace({ start: { line: 0, character: 0 }, end: doc.positionAt(text.length) }, formatted)]
+	}
+
+	formatRange(doc: TextDocument, range: Range, options: FormattingOptions): TextEdit[] {
+		const text = doc.getText()
+		const from = doc.offsetAt(range.start)
+		const to = doc.offsetAt(range.end)
+		try {
+			const items = this.splitItems(text, tokenize(text)).filter((item) => item.end > from && item.start < to)
+			return this.replaceItems(doc, text, items, options)
+		} catch (err) {
+			if (err instanceof FormatError) return []
+			throw err
+		}
+	}
+
+	formatOnType(doc: TextDocument, position: Position, ch: string, options: FormattingOptions): TextEdit[] {
+		const text = doc.getText()
+		const offset = doc.offsetAt(position)
+		const tokens = tokenize(text)
+		const typed = tokens.find((t) => t.type === "punct" && t.text === ch && t.end === offset)
+		if (!typed) return []
+
+		try {
+			if (ch === ".") {
+				const item = this.splitItems(text, tokens).find((i) => i.end === offset)
+				return item ? this.replaceItems(doc, text, [item], options) : []
+			}
+			return this.reindentLine(doc, text, tokens, typed, options)
+		} catch (err) {
+			if (err instanceof FormatError) return []
+			throw err
+		}
+	}
+
+	private replaceItems(doc: TextDocument, text: string, items: Item[], options: FormattingOptions): TextEdit[] {
+		if (items.length === 0) return []
+		const start = items[0].start
+		const end = items[items.length - 1].end
+		const formatted = this.render(text, items.map((item, idx) => (idx === 0 ? { ...item, blankBefore: false } : item)), options)
+		if (formatted === text.slice(start, end)) return []
+		return [TextEdit.replace({ start: doc.positionAt(start), end: doc.positionAt(end) }, formatted)]
+	}
+
+	// While a statement is still being typed only its indentation and the spacing before `;`/`,` are fixed
+	private reindentLine(doc: TextDocument, text: string, tokens: Token[], typed: Token, options: FormattingOptions): TextEdit[] {
+		const position = doc.positionAt(typed.start)
+		const lineStart = doc.offsetAt({ line: position.line, character: 0 })
+		let statementStart = 0
+		let depth = 0
+		for (const tok of tokens) {
+			if (tok.start >= lineStart) break
+			if (tok.type !== "punct") continue
+			if (tok.text === "[" || tok.text === "(") depth++
+			else if (tok.text === "]" || tok.text === ")") depth = Math.max(0, depth - 1)
+			else if (tok.text === "." && depth === 0) statementStart = tok.end
+		}
+		const first = tokens.find((t) => t.start >= lineStart && t.type !== "comment")
+		if (!first || first.start < statementStart) return []
+		const firstInStatement = tokens.find((t) => t.start >= statementStart && t.type !== "comment")
+		const continuation = !!firstInStatement && firstInStatement.start < lineStart
+		const closing = first.type === "punct" && (first.text === "]" || first.text === ")")
+		const level = Math.max(0, depth + (continuation ? 1 : 0) - (closing ? 1 : 0))
+
+		const edits: TextEdit[] = []
+		const indent = indentUnit(options).repeat(level)
+		const leading = text.slice(lineStart, first.start)
+		if (/^[ \t]*$/.test(leading) && leading !== indent) {
+			edits.push(TextEdit.replace({ start: doc.positionAt(lineStart), end: doc.positionAt(first.start) }, indent))
+		}
+		let before = typed.start
+		while (before > lineStart && (text[before - 1] === " " || text[before - 1] === "\t")) before--
+		if (before > lineStart && text.slice(before, typed.start) !== " " && first.start < typed.start) {
+			edits.push(TextEdit.replace({ start: doc.positionAt(before), end: doc.positionAt(typed.start) }, " "))
+		}
+		return edits
+	}
+
+	/**
+	 * Groups tokens into top-level items: directives, triple statements (up to and including
+	 * the terminating `.`) and standalone comments. Comments on the same line as a statement's
+	 * `.` stay with that statement.
+	 */
+	private splitItems(text: string, tokens: Token[]): Item[] {
+		const items: Item[] = []
+		let current: Token[] = []
+		let depth = 0
+		let lastEnd = 0
+
+		const flush = (kind: Item["kind"]) => {
+			if (current.length === 0) return
+			const start = current[0].start
+			items.push({
+				kind,
+				tokens: current,
+				start,
+				end: current[current.length - 1].end,
+				blankBefore: items.length > 0 && /\n[ \t]*\r?\n/.test(text.slice(lastEnd, start)),
+			})
+			lastEnd = current[current.length - 1].end
+			current = []
+		}
+
+		for (let k = 0; k < tokens.length; k++) {
+			const tok = tokens[k]
+			if (current.length === 0) {
+				if (tok.type === "comment") {
+					current.push(tok)
+					flush("comment")
+					continue
+				}
+				if (tok.type === "directive") {
+					const sparql = !tok.text.startsWith("@")
+					const isPrefix = /prefix$/i.test(tok.text)
+					const size = (isPrefix ? 3 : 2) + (sparql ? 0 : 1)
+					current = tokens.slice(k, k + size)
+					const last = current[current.length - 1]
+					if (current.length < size || current.some((t) => t.type === "comment") || (!sparql && last.text !== ".")) {
+						throw new FormatError("Incomplete directive")
+					}
+					k += size - 1
+					if (this.takeTrailingComment(text, tokens, k, current)) k++
+					flush("directive")
+					continue
+				}
+			}
+			current.push(tok)
+			if (tok.type === "punct") {
+				if (tok.text === "[" || tok.text === "(") depth++
+				else if (tok.text === "]" || tok.text === ")") depth--
+				if (depth < 0) throw new FormatError("Unbalanced brackets")
+				if (tok.text === "." && depth === 0) {
+					if (this.takeTrailingComment(text, tokens, k, current)) k++
+					flush("triples")
+				}
+			}
+		}
+		if (current.length > 0) throw new FormatError("Unterminated statement")
+		return items
+	}
+
+	private takeTrailingComment(text: string, tokens: Token[], k: number, current: Token[]): boolean {
+		const next = tokens[k + 1]
+		if (!next || next.type !== "comment" || text.slice(tokens[k].end, next.start).includes("\n")) return false
+		current.push(next)
+		return true
+	}
+
+	private render(text: string, items: Item[], options: FormattingOptions): string {
+		const out: string[] = []
+		const style = prefixStyle(options)
+		let prev: Item | undefined
+
+		for (let idx = 0; idx < items.length; idx++) {
+			const item = items[idx]
+			if (prev) {
+				let blank = item.blankBefore
+				if (prev.kind === "directive" && item.kind === "directive") blank = false
+				else if (prev.kind === "directive" || prev.kind === "triples") blank = true
+				out.push(blank ? "\n\n" : "\n")
+			}
+
+			if (item.kind === "comment") {
+				out.push(item.tokens[0].text.trimEnd())
+			} else if (item.kind === "directive") {
+				let group = 0
+				while (idx + group < items.length && items[idx + group].kind === "directive") group++
+				const directives = items.slice(idx, idx + group)
+				const width = Math.max(...directives.map((d) => (isPrefixDirective(d) ? d.tokens[1].text.length : 0)))
+				out.push(directives.map((d) => this.renderDirective(d, style, width)).join("\n"))
+				idx += group - 1
+				prev = directives[directives.length - 1]
+				continue
+			} else {
+				out.push(new StatementWriter(text, item.tokens, indentUnit(options)).write())
+			}
+			prev = item
+		}
+		return out.join("")
+	}
+
+	private renderDirective(item: Item, style: PrefixStyle, width: number): string {
+		const [keyword, ...rest] = item.tokens.filter((t) => t.type !== "comment" && t.text !== ".")
+		const sparql = style === "preserve" ? !keyword.text.startsWith("@") : style === "sparql"
+		const trailing = item.tokens.find((t) => t.type === "comment")
+		const comment = trailing ? ` ${trailing.text.trimEnd()}` : ""
+		const terminator = sparql ? "" : " ."
+		if (isPrefixDirective(item)) {
+			return `${sparql ? "PREFIX" : "@prefix"} ${rest[0].text.padEnd(width)} ${rest[1].text}${terminator}${comment}`
+		}
+		return `${sparql ? "BASE" : "@base"} ${rest[0].text}${terminator}${comment}`
+	}
+}
+
+/**
+ * Writes one triple statement. Comments inside the statement are carried along: those that
+ * followed a token on the same line stay at the end of that line, the others get their own line.
+ */
+class StatementWriter {
+	private pos = 0
+	private lines: string[] = []
+	private line = ""
+	private pending: Array<{ token: Token; ownLine: boolean }> = []
+	private lastEnd = 0
+
+	constructor(private text: string, private tokens: Token[], private unit: string) {}
+
+	write(): string {
+		this.lastEnd = this.tokens[0].start
+		const subject = this.peek()
+		if (subject?.text === "[" && this.isEmptyBlankNode()) {
+			this.line += "[] "
+			this.next()
+			this.next()
+			this.predicateObjectList(1, ".")
+		} else if (subject?.text === "[") {
+			this.blankNode(0)
+			if (this.peek()?.text !== ".") {
+				this.line += " "
+				this.predicateObjectList(1, ".")
+			}
+		} else {
+			this.object(0)
+			this.line += " "
+			this.predicateObjectList(1, ".")
+		}
+		this.expect(".")
+		this.line += " ."
+		this.collectComments()
+		this.flushTrailing()
+		this.lines.push(this.line)
+		for (const c of this.pending) this.lines.push(c.token.text.trimEnd())
+		return this.lines.join("\n")
+	}
+
+	private predicateObjectList(level: number, closer: string) {
+		let first = true
+		while (this.peek() && this.peek()!.text !== closer) {
+			if (!first) {
+				this.line += " ;"
+				this.newline(level)
+			}
+			first = false
+			const predicate = this.next()
+			if (!predicate || !["pname", "iri", "keyword"].includes(predicate.type)) throw new FormatError("Expected predicate")
+			this.line += predicate.text + " "
+			this.objectList(level)
+			// Anything but `;` has to close the list, which the caller expects
+			if (this.peek()?.text !== ";") return
+			while (this.peek()?.text === ";") this.next()
+		}
+	}
+
+	private objectList(level: number) {
+		this.object(level)
+		while (this.peek()?.text === ",") {
+			this.next()
+			this.line += ", "
+			this.object(level)
+		}
+	}
+
+	private object(level: number) {
+		const tok = this.peek()
+		if (!tok) throw new FormatError("Unexpected end of statement")
+		if (tok.text === "[") {
+			this.blankNode(level)
+		} else if (tok.text === "(") {
+			this.collection(level)
+		} else if (tok.type === "punct") {
+			throw new FormatError(`Unexpected '${tok.text}'`)
+		} else {
+			this.next()
+			this.line += tok.text
+		}
+	}
+
+	private blankNode(level: number) {
+		this.expect("[")
+		if (this.peek()?.text === "]") {
+			this.next()
+			this.line += "[]"
+			return
+		}
+		const inline = this.inlineBlankNode()
+		if (inline) {
+			this.line += `[ ${inline} ]`
+			return
+		}
+		this.line += "["
+		this.newline(level + 1)
+		this.predicateObjectList(level + 1, "]")
+		this.expect("]")
+		this.newline(level)
+		this.line += "]"
+	}
+
+	// `[ p o ]` stays on one line when it has a single, simple predicate/object pair
+	private inlineBlankNode(): string | null {
+		const slice = this.tokens.slice(this.pos, this.pos + 3)
+		if (slice.length < 3 || slice[2].text !== "]") return null
+		if (slice.some((t) => t.type === "comment" || (t.type === "punct" && t.text !== "]"))) return null
+		this.pos += 3
+		this.lastEnd = slice[2].end
+		return `${slice[0].text} ${slice[1].text}`
+	}
+
+	private collection(level: number) {
+		this.expect("(")
+		let count = 0
+		this.line += "("
+		while (this.peek() && this.peek()!.text !== ")") {
+			this.line += " "
+			this.object(level)
+			count++
+		}
+		this.expect(")")
+		this.line += count > 0 ? " )" : ")"
+	}
+
+	private isEmptyBlankNode(): boolean {
+		return this.tokens[this.pos]?.text === "[" && this.tokens[this.pos + 1]?.text === "]"
+	}
+
+	private expect(text: string) {
+		const tok = this.next()
+		if (!tok || tok.text !== text) throw new FormatError(`Expected '${text}'`)
+	}
+
+	private peek(): Token | undefined {
+		this.collectComments()
+		return this.tokens[this.pos]
+	}
+
+	private next(): Token | undefined {
+		this.collectComments()
+		const tok = this.tokens[this.pos++]
+		if (tok) this.lastEnd = tok.end
+		return tok
+	}
+
+	private collectComments() {
+		while (this.tokens[this.pos]?.type === "comment") {
+			const token = this.tokens[this.pos++]
+			const ownLine = this.text.slice(this.lastEnd, token.start).includes("\n")
+			this.pending.push({ token, ownLine })
+		}
+	}
+
+	private flushTrailing() {
+		const trailing = this.pending.filter((c) => !c.ownLine)
+		this.pending = this.pending.filter((c) => c.ownLine)
+		for (const c of trailing) this.line += ` ${c.token.text.trimEnd()}`
+	}
+
+	private newline(level: number) {
+		this.flushTrailing()
+		this.lines.push(this.line.trimEnd())
+		const indent = this.unit.repeat(level)
+		for (const c of this.pending) this.lines.push(indent + c.token.text.trimEnd())
+		this.pending = []
+		this.line = indent
+	}
+}
+
+function indentUnit(options: FormattingOptions): string {
+	return options.insertSpaces === false ? "\t" : " ".repeat(options.tabSize || 4)
+}
+
+function prefixStyle(options: FormattingOptions): PrefixStyle {
+	const value = String(options.prefixStyle ?? "").toLowerCase()
+	if (value === "sparql" || value === "prefix") return "sparql"
+	if (value === "turtle" || value === "@prefix") return "turtle"
+	return "preserve"
+}
+
+function isPrefixDirective(item: Item): boolean {
+	return /prefix$/i.test(item.tokens[0].text)
+}
@@ -0,0 +1,140 @@
+import { Location, Position, SymbolKind, TypeHierarchyItem } from "vscode-languageserver/node"
+import { IndexedLocation, Indexer } from "./indexer"
+import { SymbolEngine } from "./symbols"
+import { RDF_TYPE, SyntaxModel } from "./syntax"
+import { abbreviateWithPrefixes } from "./util"
+
+const RDFS = "http://www.w3.org/2000/01/rdf-schema#"
+const OWL_EQUIVALENT_CLASS = "http://www.w3.org/2002/07/owl#equivalentClass"
+
+// Edges pointing from the narrower term to the broader one
+const SUPERTYPE_PREDICATES = new Set([`${RDFS}subClassOf`, `${RDFS}subPropertyOf`])
+
+type ItemData = { iri: string }
+
+/**
+ * Class and property taxonomies of the whole workspace: `rdfs:subClassOf` and
+ * `rdfs:subPropertyOf` edges, with `owl:equivalentClass` counted in both directions.
+ */
+export class HierarchyEngine {
+	constructor(private indexer: Indexer, private symbols: SymbolEngine) {}
+
+	/**
+	 * Item for the term under the cursor when it is a class or property, or takes part in a
+	 * hierarchy edge.
+	 */
+	prepare(model: SyntaxModel, position: Position): TypeHierarchyItem[] | null {
+		const term = model.termAt(position)
+		if (!term) return null
+		const kind = this.symbols.symbolKind(term.iri)
+		const related = this.supertypes(term.iri).length > 0 || this.subtypes(term.iri).length > 0
+		if (!related && kind !== SymbolKind.Class && kind !== SymbolKind.Property) return null
+		const item = this.item(term.iri)
+		return item ? [item] : null
+	}
+
+	supertypeItems(item: TypeHierarchyItem): TypeHierarchyItem[] {
+		return this.items(this.supertypes((item.data as ItemData).iri))
+	}
+
+	subtypeItems(item: TypeHierarchyItem): TypeHierarchyItem[] {
+		return this.items(this.subtypes((item.data as ItemData).iri))
+	}
+
+	/**
+	 * Subjects typed with the class under the cursor or any of its subclasses, at their
+	 * definition in the file that types them. Empty when the term has no instances.
+	 */
+	implementations(model: SyntaxModel, position: Position): Location[] {
+		const term = model.termAt(position)
+		return term ? this.instances(term.iri) : []
+	}
+
+	// Same as `implementations`, for a class given by IRI
+	instances(cls: string): Location[] {
+		const locations: Location[] = []
+		const seen = new Set<string>()
+		for (const narrower of this.closure(cls, (iri) => this.subtypes(iri))) {
+			for (const typing of this.indexer.getIncoming(narrower)) {
+				if (typing.predicate !== RDF_TYPE) continue
+				const key = `${typing.uri} ${typing.subject}`
+				if (seen.has(key)) continue
+				seen.add(key)
+				const definition = this.indexer.getSubjects(typing.subject).find((loc) => loc.uri === typing.uri)
+				locations.push({ uri: typing.uri, range: definition?.range ?? typing.range })
+			}
+		}
+		return locations
+	}
+
+	/**
+	 * Definitions of the `rdf:type`s of the term under the cursor.
+	 */
+	typeDefinitions(model: SyntaxModel, position: Position): Location[] {
+		const term = model.termAt(position)
+		if (!term) return []
+		const types = new Set(this.indexer.getObjects(term.iri, RDF_TYPE).map((t) => t.object))
+		return [...types].flatMap((type) => this.indexer.getSubjects(type).map(({ uri, range }) => ({ uri, range })))
+	}
+
+	private supertypes(iri: string): string[] {
+		const broader = this.indexer
+			.getOutgoing(iri)
+			.filter((t) => SUPERTYPE_PREDICATES.has(t.predicate) && !t.literal)
+			.map((t) => t.object)
+		return unique([...broader, ...this.equivalents(iri)], iri)
+	}
+
+	private subtypes(iri: string): string[] {
+		const narrower = this.indexer
+			.getIncoming(iri)
+			.filter((t) => SUPERTYPE_PREDICATES.has(t.predicate))
+			.map((t) => t.subject)
+		return unique([...narrower, ...this.equivalents(iri)], iri)
+	}
+
+	// Equivalence is symmetric, whichever side states it
+	private equivalents(iri: string): string[] {
+		const stated = this.indexer.getOutgoing(iri).filter((t) => t.predicate === OWL_EQUIVALENT_CLASS && !t.literal)
+		const reverse = this.indexer.getIncoming(iri).filter((t) => t.predicate === OWL_EQUIVALENT_CLASS)
+		return [...stated.map((t) => t.object), ...reverse.map((t) => t.subject)]
+	}
+
+	// The IRI and everything reachable through `next`, cycles included only once
+	private closure(iri: string, next: (iri: string) => string[]): string[] {
+		const visited = new Set([iri])
+		const queue = [iri]
+		while (queue.length > 0) {
+			for (const found of next(queue.shift()!)) {
+				if (visited.has(found)) continue
+				visited.add(found)
+				queue.push(found)
+			}
+		}
+		return [...visited]
+	}
+
+	private items(iris: string[]): TypeHierarchyItem[] {
+		return iris.map((iri) => this.item(iri)).filter((item): item is TypeHierarchyItem => !!item)
+	}
+
+	// Located at the term's first definition, else at its first mention for external terms
+	private item(iri: string): TypeHierarchyItem | null {
+		const location: IndexedLocation | undefined = this.indexer.getSubjects(iri)[0] ?? this.indexer.getSymbols(iri)[0]
+		if (!location) return null
+		const abbreviated = abbreviateWithPrefixes(iri, this.indexer.getPrefixMap(location.uri))
+		return {
+			name: abbreviated !== iri ? abbreviated : location.surface,
+			kind: this.symbols.symbolKind(iri),
+			detail: iri,
+			uri: location.uri,
+			range: location.range,
+			selectionRange: location.range,
+			data: { iri } satisfies ItemData,
+		}
+	}
+}
+
+function unique(iris: string[], self: string): string[] {
+	return [...new Set(iris)].filter((iri) => iri !== self)
+}
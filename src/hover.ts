@@ -0,0 +1,148 @@
+import { Hover, Location, MarkupKind, Position, Range } from "vscode-languageserver/node"
+import path from "path"
+import { OntologyCatalog } from "./catalog"
+import { CompletionEngine } from "./completion"
+import { IndexedTripleLocation, Indexer } from "./indexer"
+import { LABEL_PREDICATES } from "./symbols"
+import { RDF_TYPE, SyntaxModel, TermNode } from "./syntax"
+import { abbreviateWithPrefixes, toFsPath } from "./util"
+
+const RDFS = "http://www.w3.org/2000/01/rdf-schema#"
+const SKOS = "http://www.w3.org/2004/02/skos/core#"
+
+export type LanguageValue = { value: string; language?: string }
+
+const DESCRIPTION_PREDICATES = [`${RDFS}comment`, `${SKOS}definition`]
+
+// Schema statements shown under the description, in this order
+const RELATIONS: Array<[string, string]> = [
+	["Subclass of", `${RDFS}subClassOf`],
+	["Subproperty of", `${RDFS}subPropertyOf`],
+	["Domain", `${RDFS}domain`],
+	["Range", `${RDFS}range`],
+]
+
+// Definitions listed before the hover just counts the rest
+const MAX_DEFINITIONS = 3
+
+/**
+ * Hover for prefixes, prefixed names and `<IRI>` references in Turtle and SPARQL documents.
+ * Terms are described from the workspace index, falling back to the loaded vocabularies
+ * and the local ontology catalog.
+ */
+export class HoverEngine {
+	constructor(private indexer: Indexer, private completion: CompletionEngine, private catalog: OntologyCatalog) {}
+
+	/**
+	 * `known` holds the prefixes available without a declaration; `languages` the preferred
+	 * language tags for labels and descriptions, most preferred first.
+	 */
+	async hover(model: SyntaxModel, position: Position, known: Record<string, string>, languages: string[]): Promise<Hover | null> {
+		const prefixes = { ...known, ...model.prefixMap() }
+		const declaration = model.prefixes.find((p) => contains(p.range, position))
+		if (declaration) return markdown(prefixSection(declaration.prefix, declaration.iri), declaration.range)
+
+		const term = model.termAt(position)
+		if (!term) return null
+
+		// Over the `ex` of `ex:Invoice`: the namespace rather than the term
+		const colon = term.surface.startsWith("<") ? -1 : term.surface.indexOf(":")
+		if (colon >= 0 && model.offsetAt(position) < term.start + colon) {
+			const prefix = term.surface.slice(0, colon)
+			const namespace = prefixes[prefix]
+			const range = model.rangeOf(term.start, term.start + colon)
+			return namespace === undefined ? null : markdown(prefixSection(prefix, namespace), range)
+		}
+
+		const sections = [this.termSection(term, prefixes, languages)]
+		if (colon >= 0) {
+			const prefix = term.surface.slice(0, colon)
+			const documentation = await this.completion.getTermDocumentation(
+				prefix,
+				term.surface.slice(colon + 1),
+				prefixes[prefix]
+			)
+			const text = typeof documentation === "string" ? documentation : documentation?.value
+			if (text) sections.push(text)
+		}
+		return markdown(sections.join("\n\n---\n\n"), term.range)
+	}
+
+	private termSection(term: TermNode, prefixes: Record<string, string>, languages: string[]): string {
+		const { iri } = term
+		const abbreviate = (value: string) => abbreviateWithPrefixes(value, prefixes)
+		const values = (predicates: string[]) => predicates.flatMap((p) => this.indexer.getObjects(iri, p))
+		const label = pickLiteral(values(LABEL_PREDICATES), languages)
+
+		const lines = [`**${label ?? abbreviate(iri)}**`]
+		const abbreviated = abbreviate(iri)
+		lines.push(term.surface.startsWith("<") && abbreviated !== iri ? `\`<${iri}>\` · \`${abbreviated}\`` : `\`<${iri}>\``)
+
+		const types = uniqueObjects(values([RDF_TYPE])).map(abbreviate)
+		if (types.length > 0) lines.push(`Type: ${types.map(code).join(", ")}`)
+		const description = pickLiteral(values(DESCRIPTION_PREDICATES), languages)
+		if (description) lines.push(description)
+		for (const [title, predicate] of RELATIONS) {
+			const related = uniqueObjects(values([predicate])).map(abbreviate)
+			if (related.length > 0) lines.push(`${title}: ${related.map(code).join(", ")}`)
+		}
+
+		// Workspace definitions, else the catalog ontology (imports outside the workspace included)
+		const workspace: Location[] = this.indexer.getSubjects(iri)
+		const external = workspace.length === 0 ? this.catalog.locate(iri) : null
+		const definitions = external ? [external] : workspace
+		if (definitions.length > 0) {
+			const links = definitions.slice(0, MAX_DEFINITIONS).map(({ uri, range }) => {
+				const line = range.start.line + 1
+				return `[${path.basename(toFsPath(uri))}:${line}](${uri}#L${line})`
+			})
+			const more = definitions.length > MAX_DEFINITIONS ? ` and ${definitions.length - MAX_DEFINITIONS} more` : ""
+			lines.push(`Defined in ${links.join(", ")}${more}`)
+		}
+		return lines.join("\n\n")
+	}
+}
+
+/**
+ * The literal in the most preferred language: an exact tag match, then a match on the primary
+ * subtag (`en` for `en-GB`), then an untagged literal, then whatever comes first.
+ */
+export function pickLiteral(candidates: IndexedTripleLocation[], languages: string[]): string | undefined {
+	const literals = candidates.filter((t) => t.literal).map((t) => ({ value: t.object, language: t.literal?.language }))
+	return pickLanguage(literals, languages)
+}
+
+// Same preference over plain values, as kept for vocabulary labels
+export function pickLanguage(literals: LanguageValue[], languages: string[]): string | undefined {
+	const language = (l: LanguageValue) => l.language?.toLowerCase() || undefined
+	for (const wanted of languages.map((l) => l.toLowerCase())) {
+		const primary = wanted.split("-")[0]
+		const match =
+			literals.find((l) => language(l) === wanted) ?? literals.find((l) => language(l)?.split("-")[0] === primary)
+		if (match) return match.value
+	}
+	return (literals.find((l) => !language(l)) ?? literals[0])?.value
+}
+
+function prefixSection(prefix: string, namespace: string): string {
+	return `\`${prefix}:\` → \`<${namespace}>\``
+}
+
+function uniqueObjects(triples: IndexedTripleLocation[]): string[] {
+	return [...new Set(triples.filter((t) => !t.literal).map((t) => t.object))]
+}
+
+function code(value: string): string {
+	return `\`${value}\``
+}
+
+function markdown(value: string, range: Range): Hover {
+	return { contents: { kind: MarkupKind.Markdown, value }, range }
+}
+
+function contains(range: Range, position: Position): boolean {
+	if (position.line < range.start.line || position.line > range.end.line) return false
+	if (position.line === range.start.line && position.character < range.start.character) return false
+	if (position.line === range.end.line && position.character > range.end.character) return false
+	return true
+}
@@ -0,0 +1,253 @@
+import fs from "fs"
+import { pathToFileURL } from "url"
+import { DiagnosticSeverity, Location, Position, Range } from "vscode-languageserver/node"
+import { prefixes as zazukoPrefixes, vocabularies } from "@zazuko/rdf-vocabularies"
+import { Ontology, OntologyCatalog } from "./catalog"
+import { DiagnosticCode } from "./codeActions"
+import { Indexer } from "./indexer"
+import { LintRule } from "./lint"
+import { RDF_TYPE, SyntaxModel } from "./syntax"
+import { toFsPath } from "./util"
+
+const OWL = "http://www.w3.org/2002/07/owl#"
+const OWL_IMPORTS = `${OWL}imports`
+
+/**
+ * Where an imported ontology lives: a document in the workspace index, a file loaded into
+ * the ontology catalog (which also covers RDF/XML and files outside the workspace), or a
+ * vocabulary bundled with `@zazuko/rdf-vocabularies`, keyed by its namespace.
+ */
+export type ImportSource = { uri: string; ontology?: Ontology; bundled?: BundledVocabulary }
+
+// Subjects and imports of a bundled vocabulary
+type BundledVocabulary = { subjects: Set<string>; imports: string[] }
+
+type Resolution =
+	| { status: "resolved"; source: ImportSource }
+	| { status: "loading" }
+	| { status: "unresolved"; reason: string }
+
+type ImportStatement = { iri: string; range: Range }
+
+/**
+ * Follows `owl:imports`. Targets are looked up as ontologies declared in the workspace, then
+ * as local files named by the catalog or by a `file:` IRI, then as bundled vocabularies; files
+ * outside the index and bundled vocabularies are loaded in the background and `onLoaded` runs
+ * once they are available.
+ */
+export class ImportEngine {
+	// Files and bundled prefixes being loaded because something imports them, and the ones that failed
+	private pending = new Set<string>()
+	private failed = new Map<string, string>()
+	// Terms of each import closure seen, with what they were read from; see `definedTerms`
+	private closureTerms = new Map<string, { parts: unknown[]; terms: Set<string> }>()
+	// Bundled vocabularies read so far, by prefix; they never change while the server runs
+	private bundled = new Map<string, BundledVocabulary>()
+
+	constructor(private indexer: Indexer, private catalog: OntologyCatalog, private onLoaded: () => void) {}
+
+	// Forgets load failures and cached terms, for when the catalog was reloaded
+	reset() {
+		this.failed.clear()
+		this.closureTerms.clear()
+	}
+
+	/**
+	 * Rules for imports of the document that resolve to nothing, and imports that lead back to
+	 * the document itself, reported on the import triple.
+	 */
+	lintRules(): LintRule[] {
+		return [
+			{
+				id: DiagnosticCode.UnresolvedImport,
+				severity: DiagnosticSeverity.Warning,
+				check: ({ model, report }) => {
+					for (const statement of importStatements(model)) {
+						const resolution = this.resolve(statement.iri)
+						if (resolution.status !== "unresolved") continue
+						report(statement.range, `Cannot resolve import <${statement.iri}>: ${resolution.reason}`, { iri: statement.iri })
+					}
+				},
+			},
+			{
+				id: DiagnosticCode.CyclicImport,
+				severity: DiagnosticSeverity.Warning,
+				check: ({ model, report }) => {
+					for (const statement of importStatements(model)) {
+						const resolution = this.resolve(statement.iri)
+						const cycle = resolution.status === "resolved" ? this.pathBack(resolution.source, model.uri) : null
+						if (!cycle) continue
+						const path = [statement.iri, ...cycle].map((iri) => `<${iri}>`).join(" → ")
+						report(statement.range, `Cyclic import: ${path} (this document)`, { iri: statement.iri })
+					}
+				},
+			},
+		]
+	}
+
+	/**
+	 * Every ontology the document imports, directly or not. The document itself is left out
+	 * even when a cycle leads back to it.
+	 */
+	closure(model: SyntaxModel): ImportSource[] {
+		const sources: ImportSource[] = []
+		const visited = new Set([model.uri])
+		const queue = importStatements(model).map((s) => s.iri)
+		while (queue.length > 0) {
+			const resolution = this.resolve(queue.shift()!)
+			if (resolution.status !== "resolved" || visited.has(resolution.source.uri)) continue
+			visited.add(resolution.source.uri)
+			sources.push(resolution.source)
+			queue.push(...this.importsOf(resolution.source))
+		}
+		return sources
+	}
+
+	/**
+	 * IRIs described across the import closure. Cached per closure until one of its ontologies
+	 * is loaded again or one of its workspace documents is reindexed, which replaces the
+	 * ontology or the document's subjects.
+	 */
+	definedTerms(model: SyntaxModel): Set<string> {
+		const sources = this.closure(model)
+		const key = sources.map((source) => source.uri).join(" ")
+		const parts = sources.map((source) => source.ontology ?? source.bundled ?? this.indexer.getDocumentSubjects(source.uri))
+		const cached = this.closureTerms.get(key)
+		if (cached && cached.parts.every((part, i) => part === parts[i])) return cached.terms
+
+		const terms = new Set<string>()
+		for (const source of sources) {
+			if (source.ontology) {
+				for (const quad of source.ontology.quads) {
+					if (quad.subject.termType === "NamedNode") terms.add(quad.subject.value)
+				}
+			} else if (source.bundled) {
+				for (const subject of source.bundled.subjects) terms.add(subject)
+			} else {
+				for (const subject of this.indexer.getDocumentSubjects(source.uri)) terms.add(subject.iri)
+			}
+		}
+		this.closureTerms.set(key, { parts, terms })
+		return terms
+	}
+
+	/**
+	 * Definition of a term the workspace does not describe, in a catalog ontology: imported
+	 * files outside the workspace end up there.
+	 */
+	definition(model: SyntaxModel, position: Position): Location[] {
+		const term = model.termAt(position)
+		if (!term || this.indexer.getSubjects(term.iri).length > 0) return []
+		const location = this.catalog.locate(term.iri)
+		return location ? [location] : []
+	}
+
+	private resolve(iri: string): Resolution {
+		const declaration = this.indexer.getObjects(iri, RDF_TYPE).find((t) => t.object === `${OWL}Ontology`)
+		if (declaration) return { status: "resolved", source: { uri: declaration.uri } }
+		const version = this.indexer.getIncoming(iri).find((t) => t.predicate === `${OWL}versionIRI`)
+		if (version) return { status: "resolved", source: { uri: version.uri } }
+
+		const file = this.catalog.resolve(iri) ?? (iri.startsWith("file:") ? toFsPath(iri) : undefined)
+		if (!file) return this.resolveBundled(iri) ?? { status: "unresolved", reason: "no workspace file or catalog entry declares this ontology" }
+		if (!fs.existsSync(file)) return { status: "unresolved", reason: `${file} does not exist` }
+		const uri = pathToFileURL(file).toString()
+		if (this.indexer.hasDocument(uri)) return { status: "resolved", source: { uri } }
+		const ontology = this.catalog.ontologyAt(file)
+		if (ontology) return { status: "resolved", source: { uri, ontology } }
+		const failure = this.failed.get(file)
+		if (failure) return { status: "unresolved", reason: failure }
+		this.load(file)
+		return { status: "loading" }
+	}
+
+	// Well-known vocabularies nobody maps to a file, such as SKOS or DCTERMS, are read from the bundle
+	private resolveBundled(iri: string): Resolution | undefined {
+		const prefix = bundledPrefix(iri)
+		if (!prefix) return undefined
+		const vocabulary = this.bundled.get(prefix)
+		if (vocabulary) return { status: "resolved", source: { uri: zazukoPrefixes[prefix], bundled: vocabulary } }
+		const failure = this.failed.get(prefix)
+		if (failure) return { status: "unresolved", reason: failure }
+		this.loadBundled(prefix)
+		return { status: "loading" }
+	}
+
+	private loadBundled(prefix: string) {
+		if (this.pending.has(prefix)) return
+		this.pending.add(prefix)
+		vocabularies({ only: [prefix] })
+			.then((datasets) => {
+				const vocabulary: BundledVocabulary = { subjects: new Set(), imports: [] }
+				for (const quad of datasets[prefix] ?? []) {
+					if (quad.subject.termType === "NamedNode") vocabulary.subjects.add(quad.subject.value)
+					if (quad.predicate.value === OWL_IMPORTS && quad.object.termType === "NamedNode") vocabulary.imports.push(quad.object.value)
+				}
+				this.bundled.set(prefix, vocabulary)
+			})
+			.catch((e) => this.failed.set(prefix, `cannot read the bundled vocabulary: ${e instanceof Error ? e.message : e}`))
+			.finally(() => {
+				this.pending.delete(prefix)
+				this.onLoaded()
+			})
+	}
+
+	private load(file: string) {
+		if (this.pending.has(file)) return
+		this.pending.add(file)
+		this.catalog.add(file).then((loaded) => {
+			this.pending.delete(file)
+			if (typeof loaded === "string") this.failed.set(file, loaded)
+			this.onLoaded()
+		})
+	}
+
+	private importsOf(source: ImportSource): string[] {
+		if (source.ontology) return source.ontology.imports
+		if (source.bundled) return source.bundled.imports
+		return this.indexer
+			.getDocumentTriples(source.uri)
+			.filter((t) => t.predicate === OWL_IMPORTS && !t.literal)
+			.map((t) => t.object)
+	}
+
+	// Import IRIs leading from the source back to the document, if any
+	private pathBack(source: ImportSource, uri: string): string[] | null {
+		const via = new Map<string, { from: string; iri: string }>()
+		const queue = [source]
+		const visited = new Set([source.uri])
+		while (queue.length > 0) {
+			const current = queue.shift()!
+			for (const iri of this.importsOf(current)) {
+				const resolution = this.resolve(iri)
+				if (resolution.status !== "resolved") continue
+				const next = resolution.source
+				if (next.uri === uri) {
+					const path = [iri]
+					for (let at = current.uri; via.has(at); at = via.get(at)!.from) path.unshift(via.get(at)!.iri)
+					return path
+				}
+				if (visited.has(next.uri)) continue
+				visited.add(next.uri)
+				via.set(next.uri, { from: current.uri, iri })
+				queue.push(next)
+			}
+		}
+		return null
+	}
+}
+
+// Prefix of the bundled vocabulary whose namespace is the IRI, with or without its trailing `#` or `/`
+function bundledPrefix(iri: string): string | undefined {
+	const stem = iri.replace(/[#/]$/, "")
+	return Object.keys(zazukoPrefixes).find((prefix) => zazukoPrefixes[prefix].replace(/[#/]$/, "") === stem)
+}
+
+function importStatements(model: SyntaxModel): ImportStatement[] {
+	const statements: ImportStatement[] = []
+	for (const triple of model.triples) {
+		if (triple.predicate.iri !== OWL_IMPORTS || !("iri" in triple.object) || triple.object.quoted) continue
+		statements.push({ iri: triple.object.iri, range: { start: triple.predicate.range.start, end: triple.object.range.end } })
+	}
+	return statements
+}
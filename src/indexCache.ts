@@ -0,0 +1,118 @@
+import fs from "fs"
+import os from "os"
+import path from "path"
+import { createHash } from "crypto"
+import type { DocCache } from "./indexer"
+
+// Bump whenever the shape of `DocCache` or of the cache file changes
+const CACHE_VERSION = 4
+
+/**
+ * What a file looked like on disk when it was indexed. A cached entry is reused while the
+ * mtime and size are unchanged, or when the content hash still matches after a touch.
+ */
+export type DiskStamp = {
+	mtimeMs: number
+	size: number
+	hash: string
+}
+
+export type CacheEntry = DiskStamp & {
+	doc: DocCache
+	// Shape quads are not persisted; files that declare shapes are parsed again on load
+	shapes: boolean
+}
+
+type CacheFile = {
+	version: number
+	root: string
+	entries: Record<string, CacheEntry>
+}
+
+/**
+ * Per-workspace index snapshot stored as one JSON file, keyed by absolute file path. The
+ * prefix, subject and symbol indexes are rebuilt from the per-file entries, which are the
+ * unit of invalidation.
+ */
+export class IndexCache {
+	private file: string
+
+	constructor(private root: string, directory = defaultCacheDirectory()) {
+		const key = createHash("sha1").update(root).digest("hex").slice(0, 16)
+		this.file = path.join(directory, `${key}.json`)
+	}
+
+	/**
+	 * Entries of the last snapshot. Unreadable, corrupt or version-mismatched caches are
+	 * deleted and yield an empty snapshot.
+	 */
+	async load(): Promise<Record<string, CacheEntry>> {
+		let raw: string
+		try {
+			raw = await fs.promises.readFile(this.file, "utf8")
+		} catch {
+			return {}
+		}
+		try {
+			const parsed = JSON.parse(raw) as CacheFile
+			const valid =
+				parsed?.version === CACHE_VERSION &&
+				parsed.root === this.root &&
+				isRecord(parsed.entries) &&
+				Object.values(parsed.entries).every(isEntry)
+			if (valid) return parsed.entries
+		} catch {
+			// fall through and discard
+		}
+		await this.clear()
+		return {}
+	}
+
+	// Written to a temporary file first so a crash mid-write never leaves a truncated cache
+	async save(entries: Record<string, CacheEntry>) {
+		const data: CacheFile = { version: CACHE_VERSION, root: this.root, entries }
+		const tmp = `${this.file}.${process.pid}.tmp`
+		try {
+			await fs.promises.mkdir(path.dirname(this.file), { recursive: true })
+			await fs.promises.writeFile(tmp, JSON.stringify(data), "utf8")
+			await fs.promises.rename(tmp, this.file)
+		} catch (err) {
+			console.error("Failed to write index cache", err)
+			await fs.promises.rm(tmp, { force: true }).catch(() => undefined)
+		}
+	}
+
+	async clear() {
+		await fs.promises.rm(this.file, { force: true }).catch(() => undefined)
+	}
+}
+
+export function hashContent(text: string): string {
+	return createHash("sha1").update(text).digest("hex")
+}
+
+function defaultCacheDirectory(): string {
+	const base = process.env.XDG_CACHE_HOME || path.join(os.homedir(), ".cache")
+	return path.join(base, "turtle-lsp")
+}
+
+function isEntry(value: unknown): value is CacheEntry {
+	if (!isRecord(value) || !isRecord(value.doc)) return false
+	const { doc } = value
+	return (
+		typeof value.mtimeMs === "number" &&
+		typeof value.size === "number" &&
+		typeof value.hash === "string" &&
+		Array.isArray(doc.prefixes) &&
+		Array.isArray(doc.subjects) &&
+		Array.isArray(doc.symbols) &&
+		Array.isArray(doc.predicates) &&
+		Array.isArray(doc.triples) &&
+		isRecord(doc.map) &&
+		typeof doc.base === "string"
+	)
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value)
+}
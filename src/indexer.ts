@@ -2,80 +2,281 @@ import fs from "fs"
 import path from "path"
 import { pathToFileURL } from "url"
 import { Location, Range, TextDocument } from "vscode-languageserver/node"
-import { Parser as N3Parser } from "n3"
-import { abbreviateWithPrefixes, offsetToLineInfo, toFsPath } from "./util"
+import { Quad } from "n3"
+import { CacheEntry, DiskStamp, IndexCache, hashContent } from "./indexCache"
+import { isRdfFile } from "./formats"
+import { containsShapes } from "./shacl"
+import { SyntaxModel, SyntaxTriple, TermOccurrence } from "./syntax"
+import { matchesGlobs, resolveLabel, toFsPath } from "./util"
+
+export type { TermOccurrence }
+
+export type IndexedLocation = Location & { surface: string }
+
+/**
+ * A triple with an IRI subject, as indexed for workspace-wide queries. `object` is the IRI for
+ * resources and the lexical form for literals; triples with blank node objects are not kept.
+ */
+export type IndexedTriple = {
+	subject: string
+	predicate: string
+	object: string
+	literal?: { language?: string; datatype?: string }
+	// Named graph (TriG, N-Quads); absent for the default graph
+	graph?: string
+	// Range of the predicate, `a` included
+	range: Range
+}
+
+export type IndexedTripleLocation = IndexedTriple & { uri: string }
 
 export type DocCache = {
 	prefixes: Array<{ prefix: string; range: Range }>
-	subjects: Array<{ label: string; range: Range }>
-	symbols: Array<{ label: string; range: Range }>
+	subjects: TermOccurrence[]
+	symbols: TermOccurrence[]
+	// Asserted predicate positions, whatever the subject and object
+	predicates: TermOccurrence[]
+	triples: IndexedTriple[]
 	map: Record<string, string>
+	base: string
+}
+
+export type IndexingOptions = {
+	// Upper bound on crawled files; 0 means no limit
+	maxFiles: number
+	// Directory names that are never descended into
+	skipDirectories: string[]
+	// Workspace-relative globs; when non-empty only matching files are indexed
+	include: string[]
+	// Workspace-relative globs of files and directories left out of the index
+	exclude: string[]
+	// Persist the index between sessions so unchanged files are not parsed again
+	cache: boolean
+	// Where cache files live; defaults to the user cache directory
+	cacheDirectory?: string
 }
 
+export const DEFAULT_INDEXING_OPTIONS: IndexingOptions = {
+	maxFiles: 0,
+	skipDirectories: [".git", "node_modules", ".venv", "dist", "build"],
+	include: [],
+	exclude: [],
+	cache: true,
+}
+
+const SHACL_NAMESPACE = "http://www.w3.org/ns/shacl#"
+// Files read and parsed between two yields to the event loop
+const INDEX_CHUNK_SIZE = 25
+// Delay before disk-driven index changes are flushed to the cache
+const CACHE_SAVE_DELAY = 2000
+
 export class Indexer {
 	private workspaceRoot: string | undefined
-	private workspaceIndexed = false
-	private maxFiles = 200
+	private indexing: Promise<void> | undefined
+	private crawled = false
+	private options: IndexingOptions = { ...DEFAULT_INDEXING_OPTIONS }
 	private prefixIndex: Record<string, Location[]> = {}
-	private subjectIndex: Record<string, Location[]> = {}
-	private symbolIndex: Record<string, Location[]> = {}
+	private subjectIndex: Record<string, IndexedLocation[]> = {}
+	private symbolIndex: Record<string, IndexedLocation[]> = {}
+	private predicateIndex: Record<string, IndexedLocation[]> = {}
+	private outgoingIndex: Record<string, IndexedTripleLocation[]> = {}
+	private incomingIndex: Record<string, IndexedTripleLocation[]> = {}
 	private docCache: Record<string, DocCache> = {}
+	private shapeIndex: Record<string, Quad[]> = {}
+	// Bumped whenever a document's shapes are added, replaced or removed
+	private shapesGeneration = 0
+	// Disk state of documents indexed from their saved content; only these are cached
+	private stamps: Record<string, DiskStamp> = {}
+	private cacheTimer: NodeJS.Timeout | undefined
 
-	constructor(root: string | undefined) {
+	constructor(root: string | undefined, options: Partial<IndexingOptions> = {}) {
 		this.workspaceRoot = root
+		this.configure(options)
 	}
 
 	public getPrefixes(word: string): Location[] {
 		return this.prefixIndex[word] || []
 	}
 
-	public getSubjects(word: string): Location[] {
-		return this.subjectIndex[word] || []
+	/**
+	 * Locations where the IRI is used as a subject, across the workspace.
+	 */
+	public getSubjects(iri: string): IndexedLocation[] {
+		return this.subjectIndex[iri] || []
+	}
+
+	/**
+	 * Every location where the IRI is mentioned, whatever its spelling.
+	 */
+	public getSymbols(iri: string): IndexedLocation[] {
+		return this.symbolIndex[iri] || []
+	}
+
+	/**
+	 * Locations where the IRI is used as a predicate, across the workspace.
+	 */
+	public getPredicateUsages(iri: string): IndexedLocation[] {
+		return this.predicateIndex[iri] || []
 	}
 
-	public getSymbols(word: string): Location[] {
-		return this.symbolIndex[word] || []
+	/**
+	 * Triples whose subject is the IRI, across the workspace.
+	 */
+	public getOutgoing(iri: string): IndexedTripleLocation[] {
+		return this.outgoingIndex[iri] || []
+	}
+
+	/**
+	 * Triples whose object is the IRI, across the workspace.
+	 */
+	public getIncoming(iri: string): IndexedTripleLocation[] {
+		return this.incomingIndex[iri] || []
+	}
+
+	/**
+	 * Values of one property of the subject, across the workspace.
+	 */
+	public getObjects(subject: string, predicate: string): IndexedTripleLocation[] {
+		return this.getOutgoing(subject).filter((t) => t.predicate === predicate)
 	}
 
 	public getPrefixMap(uri: string): Record<string, string> {
 		return this.docCache[uri]?.map || {}
 	}
 
-	public collectGlobalSubjects(prefixFilter: string): string[] {
+	/**
+	 * Namespaces bound to each prefix label across the workspace, the most widely declared first.
+	 */
+	public collectPrefixBindings(): Record<string, string[]> {
+		const counts: Record<string, Map<string, number>> = {}
+		for (const cached of Object.values(this.docCache)) {
+			for (const [prefix, namespace] of Object.entries(cached.map)) {
+				if (!counts[prefix]) counts[prefix] = new Map()
+				counts[prefix].set(namespace, (counts[prefix].get(namespace) ?? 0) + 1)
+			}
+		}
+		const bindings: Record<string, string[]> = {}
+		for (const [prefix, namespaces] of Object.entries(counts)) {
+			bindings[prefix] = [...namespaces.entries()].sort((a, b) => b[1] - a[1]).map(([namespace]) => namespace)
+		}
+		return bindings
+	}
+
+	public getBase(uri: string): string {
+		return this.docCache[uri]?.base || uri
+	}
+
+	public getDocumentSubjects(uri: string): TermOccurrence[] {
+		return this.docCache[uri]?.subjects || []
+	}
+
+	public getDocumentTriples(uri: string): IndexedTriple[] {
+		return this.docCache[uri]?.triples || []
+	}
+
+	public hasDocument(uri: string): boolean {
+		return uri in this.docCache
+	}
+
+	public getDocumentUris(): string[] {
+		return Object.keys(this.docCache)
+	}
+
+	/**
+	 * The indexed term covering the position, if any.
+	 */
+	public termAt(uri: string, position: { line: number; character: number }): TermOccurrence | undefined {
+		return this.docCache[uri]?.symbols.find((t) => containsPosition(t.range, position))
+	}
+
+	/**
+	 * Resolves a prefixed name or `<IRI>` reference to an absolute IRI using the document's
+	 * prefixes and base. Returns null for labels that cannot be resolved.
+	 */
+	public resolve(uri: string, label: string): string | null {
+		return resolveLabel(label, this.getPrefixMap(uri), this.getBase(uri))
+	}
+
+	/**
+	 * Quads of every indexed document that declares SHACL shapes, merged into one shapes graph.
+	 */
+	public getShapeQuads(): Quad[] {
+		return Object.values(this.shapeIndex).flat()
+	}
+
+	public hasShapes(uri: string): boolean {
+		return !!this.shapeIndex[uri]
+	}
+
+	// Changes whenever `getShapeQuads` would return other quads, for caching what is built from them
+	public getShapesGeneration(): number {
+		return this.shapesGeneration
+	}
+
+	/**
+	 * IRIs of all subjects in the workspace, optionally restricted to one namespace.
+	 */
+	public collectGlobalSubjects(namespace?: string): string[] {
 		const results: string[] = []
-		for (const label of Object.keys(this.subjectIndex)) {
-			if (prefixFilter && this.extractPrefix(label) && this.extractPrefix(label) !== prefixFilter) continue
-			results.push(label)
+		for (const iri of Object.keys(this.subjectIndex)) {
+			if (namespace && !iri.startsWith(namespace)) continue
+			results.push(iri)
 		}
 		return results
 	}
 
-	public reindexDocument(uri: string, text: string) {
+	/**
+	 * Replaces everything indexed for the document. Open documents pass the model they already
+	 * parsed; workspace files are parsed here.
+	 */
+	public reindexDocument(uri: string, text: string, model = new SyntaxModel(uri, text)) {
 		this.removeFromIndexes(uri)
+		this.addToIndexes(uri, {
+			prefixes: model.prefixes.map((p) => ({ prefix: p.prefix, range: p.range })),
+			subjects: dedupeSubjects(model.subjects),
+			symbols: model.terms,
+			predicates: model.terms
+				.filter((t) => t.role === "predicate" && !t.quoted)
+				.map(({ iri, surface, range }) => ({ iri, surface, range })),
+			triples: indexableTriples(model.triples),
+			map: model.prefixMap(),
+			base: model.base,
+		})
 
-		const prefixes = this.collectNamespaceEntries(text)
-		const nsMap = this.collectNamespaceMap(text, prefixes)
-		const subjects = this.collectSubjectEntries(text, nsMap)
-		const symbols = this.collectSymbolEntries(text)
-
-		this.docCache[uri] = {
-			prefixes: prefixes.map((p) => ({ prefix: p.prefix, range: p.range })),
-			subjects: subjects.map((s) => ({ label: s.label, range: s.range })),
-			symbols: symbols.map((s) => ({ label: s.label, range: s.range })),
-			map: nsMap,
+		const shapeQuads = this.collectShapeQuads(model)
+		if (shapeQuads) {
+			this.shapeIndex[uri] = shapeQuads
+			this.shapesGeneration++
 		}
+	}
+
+	private addToIndexes(uri: string, doc: DocCache) {
+		const { prefixes, subjects, symbols, predicates, triples } = doc
+		this.docCache[uri] = doc
 
 		for (const p of prefixes) {
 			if (!this.prefixIndex[p.prefix]) this.prefixIndex[p.prefix] = []
 			this.prefixIndex[p.prefix].push({ uri, range: p.range })
 		}
 		for (const s of subjects) {
-			if (!this.subjectIndex[s.label]) this.subjectIndex[s.label] = []
-			this.subjectIndex[s.label].push({ uri, range: s.range })
+			if (!this.subjectIndex[s.iri]) this.subjectIndex[s.iri] = []
+			this.subjectIndex[s.iri].push({ uri, range: s.range, surface: s.surface })
 		}
 		for (const sym of symbols) {
-			if (!this.symbolIndex[sym.label]) this.symbolIndex[sym.label] = []
-			this.symbolIndex[sym.label].push({ uri, range: sym.range })
+			if (!this.symbolIndex[sym.iri]) this.symbolIndex[sym.iri] = []
+			this.symbolIndex[sym.iri].push({ uri, range: sym.range, surface: sym.surface })
+		}
+		for (const p of predicates) {
+			if (!this.predicateIndex[p.iri]) this.predicateIndex[p.iri] = []
+			this.predicateIndex[p.iri].push({ uri, range: p.range, surface: p.surface })
+		}
+		for (const triple of triples) {
+			const located = { ...triple, uri }
+			if (!this.outgoingIndex[triple.subject]) this.outgoingIndex[triple.subject] = []
+			this.outgoingIndex[triple.subject].push(located)
+			if (triple.literal) continue
+			if (!this.incomingIndex[triple.object]) this.incomingIndex[triple.object] = []
+			this.incomingIndex[triple.object].push(located)
 		}
 	}
 
@@ -89,44 +290,207 @@ export class Indexer {
 				}
 			}
 			for (const s of cached.subjects) {
-				if (this.subjectIndex[s.label]) {
-					this.subjectIndex[s.label] = this.subjectIndex[s.label].filter((loc) => loc.uri !== uri)
-					if (this.subjectIndex[s.label].length === 0) delete this.subjectIndex[s.label]
+				if (this.subjectIndex[s.iri]) {
+					this.subjectIndex[s.iri] = this.subjectIndex[s.iri].filter((loc) => loc.uri !== uri)
+					if (this.subjectIndex[s.iri].length === 0) delete this.subjectIndex[s.iri]
 				}
 			}
 			for (const sym of cached.symbols) {
-				if (this.symbolIndex[sym.label]) {
-					this.symbolIndex[sym.label] = this.symbolIndex[sym.label].filter((loc) => loc.uri !== uri)
-					if (this.symbolIndex[sym.label].length === 0) delete this.symbolIndex[sym.label]
+				if (this.symbolIndex[sym.iri]) {
+					this.symbolIndex[sym.iri] = this.symbolIndex[sym.iri].filter((loc) => loc.uri !== uri)
+					if (this.symbolIndex[sym.iri].length === 0) delete this.symbolIndex[sym.iri]
 				}
 			}
+			for (const p of cached.predicates) {
+				if (this.predicateIndex[p.iri]) {
+					this.predicateIndex[p.iri] = this.predicateIndex[p.iri].filter((loc) => loc.uri !== uri)
+					if (this.predicateIndex[p.iri].length === 0) delete this.predicateIndex[p.iri]
+				}
+			}
+			for (const triple of cached.triples) {
+				removeLocated(this.outgoingIndex, triple.subject, uri)
+				if (!triple.literal) removeLocated(this.incomingIndex, triple.object, uri)
+			}
 		}
 		delete this.docCache[uri]
+		if (this.shapeIndex[uri]) {
+			delete this.shapeIndex[uri]
+			this.shapesGeneration++
+		}
+		delete this.stamps[uri]
 	}
 
-	public indexWorkspace() {
-		if (this.workspaceIndexed || !this.workspaceRoot) return
-		this.workspaceIndexed = true
-		const files = this.listTurtleFiles(this.workspaceRoot, this.maxFiles)
-		for (const file of files) {
-			const text = this.readFileSafe(file)
-			if (!text) continue
-			const uri = pathToFileURL(file).toString()
-			this.reindexDocument(uri, text)
+	/**
+	 * Re-reads an RDF file from disk and indexes its saved content. Returns false when the
+	 * file is not in a supported format or cannot be read, in which case nothing is indexed for it.
+	 */
+	public reindexFromDisk(uri: string): boolean {
+		if (!uri.startsWith("file://") || !isRdfFile(uri)) return false
+		const file = toFsPath(uri)
+		if (!this.admits(uri, file)) return false
+		const text = this.readFileSafe(file)
+		if (text === null) return false
+		this.reindexDocument(uri, text)
+		try {
+			const stat = fs.statSync(file)
+			this.stamps[uri] = { mtimeMs: stat.mtimeMs, size: stat.size, hash: hashContent(text) }
+		} catch {
+			// removed again between read and stat; the next watcher event drops it
 		}
+		this.scheduleCacheSave()
+		return true
 	}
 
-	private listTurtleFiles(root: string, maxFiles: number): string[] {
+	/**
+	 * Drops the document, or every indexed document below it when the URI is a directory.
+	 * Returns the URIs that were removed.
+	 */
+	public removeTree(uri: string): string[] {
+		const folder = uri.endsWith("/") ? uri : `${uri}/`
+		const removed = Object.keys(this.docCache).filter((indexed) => indexed === uri || indexed.startsWith(folder))
+		for (const indexed of removed) this.removeFromIndexes(indexed)
+		if (removed.length > 0) this.scheduleCacheSave()
+		return removed
+	}
+
+	/**
+	 * Crawls the workspace in chunks, yielding to the event loop between them so requests are
+	 * served against the partial index meanwhile. Files indexed in the meantime (open documents,
+	 * watcher events) are left alone since their content is newer than the crawl's.
+	 */
+	public indexWorkspace(onProgress?: (done: number, total: number) => void): Promise<void> {
+		if (!this.workspaceRoot) return Promise.resolve()
+		if (!this.indexing) this.indexing = this.crawl(this.workspaceRoot, onProgress)
+		return this.indexing
+	}
+
+	/**
+	 * Forgets every file indexed from disk and crawls again, e.g. after the indexing options
+	 * changed. Documents indexed from editor buffers are kept.
+	 */
+	public async reindexWorkspace(onProgress?: (done: number, total: number) => void): Promise<void> {
+		await this.indexing?.catch(() => undefined)
+		for (const uri of Object.keys(this.stamps)) this.removeFromIndexes(uri)
+		this.indexing = undefined
+		this.crawled = false
+		return this.indexWorkspace(onProgress)
+	}
+
+	public configure(options: Partial<IndexingOptions>) {
+		this.options = { ...this.options, ...options }
+	}
+
+	// Include/exclude globs are matched against the workspace-relative path
+	private accepts(file: string, directory = false): boolean {
+		if (!this.workspaceRoot) return true
+		const relative = path.relative(this.workspaceRoot, file)
+		if (relative.startsWith("..") || path.isAbsolute(relative)) return true
+		const { include, exclude } = this.options
+		if (matchesGlobs(relative, exclude) || (directory && matchesGlobs(`${relative}/`, exclude))) return false
+		return directory || include.length === 0 || matchesGlobs(relative, include)
+	}
+
+	// What the crawl would index, for one file: outside skipped directories, accepted by the
+	// globs, and within the file limit unless already indexed
+	private admits(uri: string, file: string): boolean {
+		if (!this.accepts(file)) return false
+		if (this.workspaceRoot) {
+			const relative = path.relative(this.workspaceRoot, file)
+			const inside = !relative.startsWith("..") && !path.isAbsolute(relative)
+			const skip = new Set(this.options.skipDirectories)
+			if (inside && relative.split(path.sep).some((part) => skip.has(part))) return false
+		}
+		const { maxFiles } = this.options
+		return maxFiles <= 0 || uri in this.stamps || Object.keys(this.stamps).length < maxFiles
+	}
+
+	private async crawl(root: string, onProgress?: (done: number, total: number) => void) {
+		const cache = this.createCache(root)
+		const cached = cache ? await cache.load() : {}
+		const files = await this.listRdfFiles(root)
+		onProgress?.(0, files.length)
+		for (let i = 0; i < files.length; i += INDEX_CHUNK_SIZE) {
+			const chunk = files.slice(i, i + INDEX_CHUNK_SIZE)
+			await Promise.all(chunk.map((file) => this.indexFile(file, cached[file])))
+			onProgress?.(Math.min(i + chunk.length, files.length), files.length)
+			await new Promise((resolve) => setImmediate(resolve))
+		}
+		this.crawled = true
+		// Entries of files that no longer exist are dropped by writing only what was indexed
+		if (cache) await cache.save(this.cacheEntries())
+	}
+
+	// Reuses the cached entry when the file is unchanged, otherwise parses it
+	private async indexFile(file: string, entry: CacheEntry | undefined) {
+		const uri = pathToFileURL(file).toString()
+		let stat: fs.Stats
+		try {
+			stat = await fs.promises.stat(file)
+		} catch {
+			return
+		}
+		const reusable = entry && !entry.shapes
+		if (reusable && entry.mtimeMs === stat.mtimeMs && entry.size === stat.size) {
+			if (!this.docCache[uri]) this.restore(uri, entry)
+			return
+		}
+
+		const text = await fs.promises.readFile(file, "utf8").catch(() => null)
+		if (!text || this.docCache[uri]) return
+		const hash = hashContent(text)
+		if (reusable && entry.hash === hash) {
+			this.restore(uri, { ...entry, mtimeMs: stat.mtimeMs, size: stat.size })
+			return
+		}
+		this.reindexDocument(uri, text)
+		this.stamps[uri] = { mtimeMs: stat.mtimeMs, size: stat.size, hash }
+	}
+
+	private restore(uri: string, entry: CacheEntry) {
+		this.removeFromIndexes(uri)
+		this.addToIndexes(uri, entry.doc)
+		this.stamps[uri] = { mtimeMs: entry.mtimeMs, size: entry.size, hash: entry.hash }
+	}
+
+	private createCache(root: string): IndexCache | null {
+		if (!this.options.cache) return null
+		return new IndexCache(root, this.options.cacheDirectory || undefined)
+	}
+
+	private cacheEntries(): Record<string, CacheEntry> {
+		const entries: Record<string, CacheEntry> = {}
+		for (const [uri, stamp] of Object.entries(this.stamps)) {
+			const doc = this.docCache[uri]
+			if (doc) entries[toFsPath(uri)] = { ...stamp, doc, shapes: this.hasShapes(uri) }
+		}
+		return entries
+	}
+
+	// Saves are batched and wait for the crawl to finish; editor buffers never reach the cache
+	// since they carry no disk stamp
+	private scheduleCacheSave() {
+		const root = this.workspaceRoot
+		if (!root || !this.crawled || !this.options.cache || this.cacheTimer) return
+		this.cacheTimer = setTimeout(() => {
+			this.cacheTimer = undefined
+			this.createCache(root)?.save(this.cacheEntries())
+		}, CACHE_SAVE_DELAY)
+		this.cacheTimer.unref()
+	}
+
+	private async listRdfFiles(root: string): Promise<string[]> {
+		const { maxFiles, skipDirectories } = this.options
+		const limit = maxFiles > 0 ? maxFiles : Infinity
+		const skip = new Set(skipDirectories)
 		const results: string[] = []
 		const stack: string[] = [root]
-		const skip = new Set([".git", "node_modules", ".venv", "dist", "build"])
 
-		while (stack.length && results.length < maxFiles) {
+		while (stack.length && results.length < limit) {
 			const dir = stack.pop()
 			if (!dir) break
 			let entries: fs.Dirent[] = []
 			try {
-				entries = fs.readdirSync(dir, { withFileTypes: true })
+				entries = await fs.promises.readdir(dir, { withFileTypes: true })
 			} catch {
 				continue
 			}
@@ -135,10 +499,10 @@ export class Indexer {
 				if (skip.has(entry.name)) continue
 				const full = path.join(dir, entry.name)
 				if (entry.isDirectory()) {
-					stack.push(full)
-				} else if (entry.isFile() && (entry.name.endsWith(".ttl") || entry.name.endsWith(".turtle"))) {
+					if (this.accepts(full, true)) stack.push(full)
+				} else if (entry.isFile() && isRdfFile(entry.name) && this.accepts(full)) {
 					results.push(full)
-					if (results.length >= maxFiles) break
+					if (results.length >= limit) break
 				}
 			}
 		}
@@ -154,161 +518,49 @@ export class Indexer {
 		}
 	}
 
-	private collectNamespaceEntries(text: string): Array<{ prefix: string; iri: string; range: Range }> {
-		const detailed: Array<{ prefix: string; iri: string; range: Range }> = []
-		try {
-			const parser = new N3Parser()
-			parser.parse(text)
-			const prefixes: Record<string, string> = (parser as any)._prefixes || {}
-			for (const [prefix, iri] of Object.entries(prefixes)) {
-				const idx = text.indexOf(prefix + ":")
-				if (idx < 0) continue
-				const lineInfo = offsetToLineInfo(text, idx)
-				detailed.push({
-					prefix,
-					iri,
-					range: {
-						start: { line: lineInfo.line, character: lineInfo.character },
-						end: { line: lineInfo.line, character: lineInfo.character + prefix.length },
-					},
-				})
-			}
-		} catch {
-			const lines = text.split(/\r?\n/)
-			lines.forEach((line, idx) => {
-				const match = line.trim().match(/^@?prefix\s+([A-Za-z0-9_\-]*):\s*<([^>]+)>/i)
-				if (match) {
-					const [, prefix, iri] = match
-					const start = line.indexOf(prefix)
-					const end = start + prefix.length
-					detailed.push({
-						prefix,
-						iri,
-						range: {
-							start: { line: idx, character: start },
-							end: { line: idx, character: end },
-						},
-					})
-				}
-			})
-		}
-
-		return detailed
+	// Only documents mentioning the SHACL namespace are worth a full quad parse
+	private collectShapeQuads(model: SyntaxModel): Quad[] | null {
+		if (!model.terms.some((t) => t.iri.startsWith(SHACL_NAMESPACE))) return null
+		const quads = model.quads
+		return quads && containsShapes(quads) ? quads : null
 	}
+}
 
-	private collectNamespaceMap(text: string, prefixes?: Array<{ prefix: string; iri: string }>): Record<string, string> {
-		const map: Record<string, string> = {}
-		for (const p of prefixes || this.collectNamespaceEntries(text)) {
-			map[p.prefix] = p.iri
+function indexableTriples(triples: SyntaxTriple[]): IndexedTriple[] {
+	const result: IndexedTriple[] = []
+	for (const { subject, predicate, object, graph } of triples) {
+		if (!("iri" in subject)) continue
+		const base: Omit<IndexedTriple, "object"> = { subject: subject.iri, predicate: predicate.iri, range: predicate.range }
+		if (graph) base.graph = graph
+		if ("iri" in object) result.push({ ...base, object: object.iri })
+		else if ("value" in object) {
+			result.push({ ...base, object: object.value, literal: { language: object.language, datatype: object.datatype } })
 		}
-		return map
 	}
+	return result
+}
 
-	private collectSubjectEntries(text: string, nsMap: Record<string, string>): Array<{ label: string; range: Range }> {
-		const detailed: Array<{ label: string; range: Range }> = []
-		try {
-			const parser = new N3Parser()
-			const quads = parser.parse(text)
-			const seen = new Set<string>()
-			for (const quad of quads) {
-				const subj = quad.subject.value
-				if (seen.has(subj)) continue
-				seen.add(subj)
-				let idx = text.indexOf(subj)
-				if (idx < 0) {
-					for (const [prefix, base] of Object.entries(nsMap)) {
-						if (subj.startsWith(base)) {
-							const pref = `${prefix}:${subj.slice(base.length)}`
-							idx = text.indexOf(pref)
-							if (idx >= 0) {
-								const lineInfo = offsetToLineInfo(text, idx)
-								detailed.push({
-									label: pref,
-									range: {
-										start: { line: lineInfo.line, character: lineInfo.character },
-										end: { line: lineInfo.line, character: lineInfo.character + pref.length },
-									},
-								})
-								break
-							}
-						}
-					}
-				} else {
-					const lineInfo = offsetToLineInfo(text, idx)
-					detailed.push({
-						label: subj,
-						range: {
-							start: { line: lineInfo.line, character: lineInfo.character },
-							end: { line: lineInfo.line, character: lineInfo.character + subj.length },
-						},
-					})
-				}
-			}
-			const lines = text.split(/\r?\n/)
-			lines.forEach((line, idx) => {
-				const trimmed = line.trim()
-				if (!trimmed || trimmed.startsWith("@") || trimmed.startsWith("#")) return
-				const subjectMatch = trimmed.match(/^([A-Za-z0-9_\-]*:[\w-]+)/)
-				if (subjectMatch) {
-					const label = subjectMatch[1]
-					if (seen.has(label)) return
-					seen.add(label)
-					const start = line.indexOf(label)
-					detailed.push({
-						label,
-						range: {
-							start: { line: idx, character: start },
-							end: { line: idx, character: start + label.length },
-						},
-					})
-				}
-			})
-		} catch {
-			const lines = text.split(/\r?\n/)
-			lines.forEach((line, idx) => {
-				const trimmed = line.trim()
-				if (!trimmed || trimmed.startsWith("@") || trimmed.startsWith("#")) return
-
-				const subjectMatch = trimmed.match(/^([<A-Za-z][^\s>]*)/)
-				if (subjectMatch) {
-					const label = subjectMatch[1]
-					const start = line.indexOf(label)
-					detailed.push({
-						label,
-						range: {
-							start: { line: idx, character: start },
-							end: { line: idx, character: start + label.length },
-						},
-					})
-				}
-			})
-		}
+function removeLocated(index: Record<string, IndexedTripleLocation[]>, key: string, uri: string) {
+	const list = index[key]
+	if (!list) return
+	const remaining = list.filter((t) => t.uri !== uri)
+	if (remaining.length === 0) delete index[key]
+	else index[key] = remaining
+}
 
-		return detailed
-	}
-
-	private collectSymbolEntries(text: string): Array<{ label: string; range: Range }> {
-		const results: Array<{ label: string; range: Range }> = []
-		const lines = text.split(/\r?\n/)
-		lines.forEach((line, idx) => {
-			const matches = line.matchAll(/([A-Za-z0-9_\-]*:[\w-]+)/g)
-			for (const m of matches) {
-				const label = m[1]
-				const start = m.index ?? 0
-				results.push({
-					label,
-					range: {
-						start: { line: idx, character: start },
-						end: { line: idx, character: start + label.length },
-					},
-				})
-			}
-		})
-		return results
-	}
+function containsPosition(range: Range, position: { line: number; character: number }): boolean {
+	if (position.line < range.start.line || position.line > range.end.line) return false
+	if (position.line === range.start.line && position.character < range.start.character) return false
+	if (position.line === range.end.line && position.character > range.end.character) return false
+	return true
+}
 
-	private extractPrefix(token: string): string {
-		const match = token.match(/^([A-Za-z][\w-]*):/)
-		return match ? match[1] : ""
-	}
+// A subject repeated in several statements is reported once, at its first statement
+function dedupeSubjects(subjects: TermOccurrence[]): TermOccurrence[] {
+	const seen = new Set<string>()
+	return subjects.filter((s) => {
+		if (seen.has(s.iri)) return false
+		seen.add(s.iri)
+		return true
+	})
 }
@@ -0,0 +1,49 @@
+import { InlayHint, Range } from "vscode-languageserver/node"
+import { CompletionEngine } from "./completion"
+import { InlayHintSettings } from "./config"
+import { pickLanguage, pickLiteral } from "./hover"
+import { Indexer } from "./indexer"
+import { LABEL_PREDICATES } from "./symbols"
+import { SyntaxModel, TermNode } from "./syntax"
+
+/**
+ * Labels after opaque identifiers (`wd:Q42 Douglas Adams`) and, when enabled, the expanded
+ * IRI after prefixed names. Labels come from the workspace index, else the loaded vocabularies.
+ */
+export class InlayHintEngine {
+	constructor(private indexer: Indexer, private completion: CompletionEngine) {}
+
+	hints(model: SyntaxModel, range: Range, settings: InlayHintSettings, languages: string[]): InlayHint[] {
+		if (!settings.labels && !settings.iris) return []
+		const start = model.offsetAt(range.start)
+		const end = model.offsetAt(range.end)
+		const hints: InlayHint[] = []
+		for (const term of model.terms) {
+			if (term.end < start || term.start > end || term.surface === "a") continue
+			const prefixed = !term.surface.startsWith("<")
+			if (settings.labels) {
+				const label = this.label(term.iri, languages)
+				if (label && !spellsOut(term, label)) {
+					hints.push({ position: term.range.end, label, paddingLeft: true, tooltip: term.iri })
+				}
+			}
+			if (settings.iris && prefixed) {
+				hints.push({ position: term.range.end, label: `<${term.iri}>`, paddingLeft: true })
+			}
+		}
+		return hints
+	}
+
+	private label(iri: string, languages: string[]): string | undefined {
+		const indexed = LABEL_PREDICATES.flatMap((p) => this.indexer.getObjects(iri, p))
+		return pickLiteral(indexed, languages) ?? pickLanguage(this.completion.vocabularyLabels(iri), languages)
+	}
+}
+
+// Whether the identifier already reads as its label (`foaf:givenName`, "given name")
+function spellsOut(term: TermNode, label: string): boolean {
+	const surface = term.surface.replace(/^<|>$/g, "")
+	const local = surface.slice(Math.max(surface.lastIndexOf(":"), surface.lastIndexOf("/"), surface.lastIndexOf("#")) + 1)
+	const normalize = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]/gu, "")
+	return normalize(local) === normalize(label)
+}
@@ -0,0 +1,193 @@
+export type TokenType =
+	| "comment"
+	| "iri"
+	| "pname"
+	| "bnode"
+	| "literal"
+	| "number"
+	| "boolean"
+	| "keyword"
+	| "directive"
+	| "punct"
+	| "unknown"
+
+export type Token = {
+	type: TokenType
+	text: string
+	start: number
+	end: number
+}
+
+const PNAME = /(?:[A-Za-zÀ-￿][\w\-.·À-￿]*)?:(?:[\w\-:%·À-￿]|\\[^\s]|\.(?=[\w\-:%·À-￿]))*/y
+const BNODE = /_:(?:[\w\-·À-￿]|\.(?=[\w\-·À-￿]))+/y
+const NUMBER = /[+-]?(?:\d+\.\d*[eE][+-]?\d+|\.\d+(?:[eE][+-]?\d+)?|\d+[eE][+-]?\d+|\d*\.\d+|\d+)/y
+const WORD = /[A-Za-z][\w\-]*/y
+const LANGTAG = /@[A-Za-z]+(?:-[A-Za-z0-9]+)*/y
+const DIRECTIVE = /@(?:prefix|base)\b/y
+const VARIABLE = /\?[A-Za-z_][\w\-]*/y
+const UNKNOWN = /[^\s]/y
+
+export const STAR_DELIMITERS = new Set(["<<", ">>", "{|", "|}"])
+
+/**
+ * Splits Turtle text into tokens with exact offsets. Literals keep their language tag or
+ * datatype suffix so that the token text is the literal's full surface form. Never throws:
+ * anything unrecognized becomes a single-character "unknown" token.
+ *
+ * The related formats share the tokenizer: TriG graph braces are punctuation and the N3
+ * implication and equality operators (`=>`, `<=`, `=`) are keywords. The RDF-star quoted
+ * triple and annotation delimiters (`<<`, `>>`, `{|`, `|}`) are two-character punctuation.
+ */
+export function tokenize(text: string): Token[] {
+	const tokens: Token[] = []
+	let i = 0
+
+	const sticky = (re: RegExp, at: number) => {
+		re.lastIndex = at
+		const m = re.exec(text)
+		return m && m[0].length > 0 ? m[0] : null
+	}
+	const push = (type: TokenType, start: number, end: number) => {
+		tokens.push({ type, text: text.slice(start, end), start, end })
+		i = end
+	}
+
+	while (i < text.length) {
+		const ch = text[i]
+		if (/\s/.test(ch)) {
+			i++
+			continue
+		}
+		if (ch === "#") {
+			const nl = text.indexOf("\n", i)
+			let end = nl < 0 ? text.length : nl
+			if (text[end - 1] === "\r") end--
+			push("comment", i, end)
+			continue
+		}
+		if ((ch === "=" && text[i + 1] === ">") || (ch === "<" && text[i + 1] === "=" && /[\s{]/.test(text[i + 2] ?? " "))) {
+			push("keyword", i, i + 2)
+			continue
+		}
+		if (ch === "=") {
+			push("keyword", i, i + 1)
+			continue
+		}
+		if (STAR_DELIMITERS.has(text.slice(i, i + 2))) {
+			push("punct", i, i + 2)
+			continue
+		}
+		if (ch === "<") {
+			const close = text.indexOf(">", i)
+			if (close > i && !/[\s<"{}|^`]/.test(text.slice(i + 1, close))) {
+				push("iri", i, close + 1)
+				continue
+			}
+		}
+		if (ch === '"' || ch === "'") {
+			push("literal", i, literalEnd(text, i))
+			continue
+		}
+		if ("[](){}.;,".includes(ch)) {
+			const num = ch === "." ? sticky(NUMBER, i) : null
+			if (num) {
+				push("number", i, i + num.length)
+				continue
+			}
+			push("punct", i, i + 1)
+			continue
+		}
+		if (ch === "^" && text[i + 1] === "^") {
+			push("punct", i, i + 2)
+			continue
+		}
+		if (ch === "@") {
+			const directive = sticky(DIRECTIVE, i)
+			if (directive) {
+				push("directive", i, i + directive.length)
+				continue
+			}
+			const lang = sticky(LANGTAG, i)
+			if (lang) {
+				push("unknown", i, i + lang.length)
+				continue
+			}
+		}
+		if (ch === "_" && text[i + 1] === ":") {
+			const bnode = sticky(BNODE, i)
+			if (bnode) {
+				push("bnode", i, i + bnode.length)
+				continue
+			}
+		}
+		const num = sticky(NUMBER, i)
+		if (num) {
+			push("number", i, i + num.length)
+			continue
+		}
+		const pname = sticky(PNAME, i)
+		if (pname) {
+			push("pname", i, i + pname.length)
+			continue
+		}
+		const word = sticky(WORD, i)
+		if (word) {
+			const lower = word.toLowerCase()
+			if (word === "true" || word === "false") push("boolean", i, i + word.length)
+			else if (lower === "prefix" || lower === "base") push("directive", i, i + word.length)
+			else push("keyword", i, i + word.length)
+			continue
+		}
+		const variable = ch === "?" ? sticky(VARIABLE, i) : null
+		if (variable) {
+			push("unknown", i, i + variable.length)
+			continue
+		}
+		const other = sticky(UNKNOWN, i) as string
+		push("unknown", i, i + other.length)
+	}
+
+	return attachLiteralSuffixes(tokens, text)
+}
+
+function literalEnd(text: string, start: number): number {
+	const quoteChar = text[start]
+	const long = text.startsWith(quoteChar.repeat(3), start)
+	const quote = long ? quoteChar.repeat(3) : quoteChar
+	let j = start + quote.length
+	while (j < text.length) {
+		if (text[j] === "\\") {
+			j += 2
+			continue
+		}
+		if (text.startsWith(quote, j)) return j + quote.length
+		if (!long && text[j] === "\n") return j
+		j++
+	}
+	return text.length
+}
+
+// Folds `@lang` and `^^datatype` into the preceding literal token
+function attachLiteralSuffixes(tokens: Token[], text: string): Token[] {
+	const out: Token[] = []
+	for (let k = 0; k < tokens.length; k++) {
+		const tok = tokens[k]
+		const prev = out[out.length - 1]
+		if (prev && prev.type === "literal" && prev.end === tok.start) {
+			if (tok.type === "unknown" && tok.text.startsWith("@") && tok.text.length > 1) {
+				prev.end = tok.end
+				prev.text = text.slice(prev.start, prev.end)
+				continue
+			}
+			const dt = tokens[k + 1]
+			if (tok.text === "^^" && dt && (dt.type === "iri" || dt.type === "pname") && dt.start === tok.end) {
+				prev.end = dt.end
+				prev.text = text.slice(prev.start, prev.end)
+				k++
+				continue
+			}
+		}
+		out.push(tok)
+	}
+	return out
+}
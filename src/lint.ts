@@ -0,0 +1,314 @@
+import { Diagnostic, DiagnosticSeverity, Range } from "vscode-languageserver/node"
+import { DiagnosticCode } from "./codeActions"
+import { TurtleSettings } from "./config"
+import { isLineBased } from "./formats"
+import { Indexer } from "./indexer"
+import { LABEL_PREDICATES } from "./symbols"
+import { LiteralNode, RDF_TYPE, SyntaxModel, SyntaxTriple, TermNode } from "./syntax"
+import { namespaceOf } from "./util"
+
+const RDF = "http://www.w3.org/1999/02/22-rdf-syntax-ns#"
+const RDFS = "http://www.w3.org/2000/01/rdf-schema#"
+const OWL = "http://www.w3.org/2002/07/owl#"
+
+const CLASS_TYPES = new Set([`${RDFS}Class`, `${OWL}Class`])
+const PROPERTY_TYPES = new Set([`${RDF}Property`, `${OWL}ObjectProperty`, `${OWL}DatatypeProperty`])
+// Objects of these point at documents and ontologies rather than at terms to be defined
+const REFERENCE_PREDICATES = new Set([
+	`${OWL}imports`,
+	`${OWL}versionIRI`,
+	`${OWL}priorVersion`,
+	`${RDFS}seeAlso`,
+	`${RDFS}isDefinedBy`,
+])
+
+// `# turtle-lsp-disable-next-line rule-id, other-id -- reason`; without ids every rule is silenced
+const SUPPRESSION = /^#\s*turtle-lsp-disable-next-line\b([^]*)$/
+
+export type LintContext = {
+	model: SyntaxModel
+	indexer: Indexer
+	settings: TurtleSettings
+	vocabulary: LintVocabulary
+	report: (range: Range, message: string, data?: unknown) => void
+	// Computes a value once per run, for rules that share the work of finding their problems
+	once: <T>(key: object, compute: () => T) => T
+}
+
+// What the loaded vocabularies tell about the document's terms, gathered once per run
+export type LintVocabulary = {
+	/**
+	 * Whether a loaded vocabulary (imported, from the catalog or bundled) defines the IRI.
+	 * Undefined when none of them covers its namespace.
+	 */
+	defines: (iri: string) => boolean | undefined
+	// IRIs described across the import closure
+	importedTerms: Set<string>
+	// Their namespaces, except those of bundled vocabularies, which keep their own check
+	importedNamespaces: Set<string>
+}
+
+export type LintFinding = { code: string; range: Range; message: string; data?: unknown }
+
+/**
+ * A check over one document. The id is the diagnostic code, so `severity` settings re-level
+ * the rule or turn it "off", and suppression comments name it.
+ */
+export type LintRule = {
+	id: string
+	severity: DiagnosticSeverity
+	check: (context: LintContext) => void
+}
+
+/**
+ * Runs the registered rules over a document: the built-in ones, and those of the engines whose
+ * checks need their state. Rules turned off in the settings are skipped entirely; the caller
+ * re-levels the others.
+ */
+export class LintEngine {
+	private rules = new Map<string, LintRule>()
+
+	constructor(private indexer: Indexer, rules: LintRule[] = []) {
+		for (const rule of [...BUILT_IN_RULES, ...rules]) this.register(rule)
+	}
+
+	// Adds a rule, replacing any rule with the same id
+	register(rule: LintRule) {
+		this.rules.set(rule.id, rule)
+	}
+
+	run(model: SyntaxModel, settings: TurtleSettings, vocabulary: LintVocabulary): Diagnostic[] {
+		const diagnostics: Diagnostic[] = []
+		const shared = new Map<object, unknown>()
+		const once = <T>(key: object, compute: () => T): T => {
+			if (!shared.has(key)) shared.set(key, compute())
+			return shared.get(key) as T
+		}
+		for (const rule of this.rules.values()) {
+			if (settings.severity[rule.id] === "off") continue
+			const report = (range: Range, message: string, data?: unknown) => {
+				diagnostics.push({ severity: rule.severity, range, message, source: "turtle-node-lsp", code: rule.id, data })
+			}
+			rule.check({ model, indexer: this.indexer, settings, vocabulary, report, once })
+		}
+		return diagnostics
+	}
+}
+
+/**
+ * Rules for a check that finds problems of several kinds in one pass, one rule per kind with
+ * its default severity. The pass runs once per document however many of the rules are on, and
+ * not at all when they are all off; it reports through its findings, not `report`.
+ */
+export function ruleGroup(
+	severities: Record<string, DiagnosticSeverity>,
+	find: (context: LintContext) => LintFinding[]
+): LintRule[] {
+	const key = {}
+	return Object.entries(severities).map(([id, severity]) => ({
+		id,
+		severity,
+		check(context) {
+			for (const finding of context.once(key, () => find(context))) {
+				if (finding.code === id) context.report(finding.range, finding.message, finding.data)
+			}
+		},
+	}))
+}
+
+/**
+ * Drops the diagnostics silenced by a `# turtle-lsp-disable-next-line` comment on the line
+ * above them.
+ */
+export function applySuppressions(model: SyntaxModel, diagnostics: Diagnostic[]): Diagnostic[] {
+	// Silenced rule ids by line, null for every rule
+	const suppressed = new Map<number, Set<string> | null>()
+	for (const token of model.tokens) {
+		if (token.type !== "comment") continue
+		const match = SUPPRESSION.exec(token.text.trim())
+		if (!match) continue
+		const ids = match[1].split("--")[0].split(/[\s,]+/).filter((id) => id)
+		suppressed.set(model.positionAt(token.start).line + 1, ids.length > 0 ? new Set(ids) : null)
+	}
+	if (suppressed.size === 0) return diagnostics
+	return diagnostics.filter((diagnostic) => {
+		const line = diagnostic.range.start.line
+		if (!suppressed.has(line)) return true
+		const ids = suppressed.get(line)
+		return ids !== null && !ids!.has(String(diagnostic.code))
+	})
+}
+
+/**
+ * What the rules of other documents read from this one: its subjects with their predicates and
+ * types. Other documents are linted again when it changes.
+ */
+export function definitionKey(model: SyntaxModel): string {
+	const facts = new Set<string>()
+	for (const { subject, predicate, object } of model.triples) {
+		if (!("iri" in subject)) continue
+		facts.add(predicate.iri === RDF_TYPE && isTerm(object) ? `${subject.iri} a ${object.iri}` : `${subject.iri} ${predicate.iri}`)
+	}
+	return [...facts].sort().join("\n")
+}
+
+const BUILT_IN_RULES: LintRule[] = [
+	{
+		// Statements that run into the next one (or the end of the file) without '.', ';' or ','
+		id: DiagnosticCode.MissingTerminator,
+		severity: DiagnosticSeverity.Warning,
+		check({ model, report }) {
+			for (const offset of model.missingTerminators) {
+				const { line } = model.positionAt(offset)
+				const lineEnd = model.offsetAt({ line: line + 1, character: 0 })
+				const lineText = model.text.slice(model.offsetAt({ line, character: 0 }), lineEnd).replace(/\r?\n$/, "")
+				report(
+					{ start: { line, character: 0 }, end: { line, character: lineText.length } },
+					"Turtle statements typically end with '.', ';', or ','"
+				)
+			}
+		},
+	},
+	{
+		id: DiagnosticCode.UndeclaredPrefix,
+		severity: DiagnosticSeverity.Warning,
+		check({ model, report }) {
+			if (isLineBased(model.format)) return
+			const declared = new Set(model.prefixes.map((p) => p.prefix))
+			for (const term of model.terms) {
+				if (term.surface.startsWith("<")) continue
+				const prefix = term.surface.slice(0, term.surface.indexOf(":"))
+				if (!declared.has(prefix)) report(term.range, `Prefix '${displayPrefix(prefix)}' is not declared`, { prefix })
+			}
+		},
+	},
+	{
+		id: DiagnosticCode.DuplicatePrefix,
+		severity: DiagnosticSeverity.Warning,
+		// A rebinding changes what the prefixed names after it mean, so it is reported apart and
+		// carries the namespace it replaces; only repeats of the same binding are safe to remove
+		check({ model, report }) {
+			const seen = new Map<string, string>()
+			for (const entry of model.prefixes) {
+				const previous = seen.get(entry.prefix)
+				const label = displayPrefix(entry.prefix)
+				if (previous === entry.iri) {
+					report(entry.range, `Prefix '${label}' is declared multiple times`, { prefix: entry.prefix })
+				} else if (previous !== undefined) {
+					report(entry.range, `Prefix '${label}' is rebound from <${previous}> to <${entry.iri}>`, { prefix: entry.prefix, previous })
+				}
+				seen.set(entry.prefix, entry.iri)
+			}
+		},
+	},
+	{
+		// Reported in the document that declares the class; the label may live anywhere
+		id: "class-without-label",
+		severity: DiagnosticSeverity.Information,
+		check({ model, indexer, report }) {
+			for (const cls of typedSubjects(model, CLASS_TYPES)) {
+				if (LABEL_PREDICATES.some((p) => indexer.getObjects(cls.iri, p).length > 0)) continue
+				report(cls.range, `Class '${cls.surface}' has no label (rdfs:label or skos:prefLabel)`)
+			}
+		},
+	},
+	{
+		id: "property-without-domain-range",
+		severity: DiagnosticSeverity.Information,
+		check({ model, indexer, report }) {
+			for (const property of typedSubjects(model, PROPERTY_TYPES)) {
+				const missing = ["domain", "range"].filter((p) => indexer.getObjects(property.iri, `${RDFS}${p}`).length === 0)
+				if (missing.length === 0) continue
+				report(property.range, `Property '${property.surface}' has no ${missing.map((p) => `rdfs:${p}`).join(" or ")}`)
+			}
+		},
+	},
+	{
+		// Local namespaces are the ones the document defines subjects in
+		id: "undefined-local-term",
+		severity: DiagnosticSeverity.Warning,
+		check({ model, indexer, vocabulary, report }) {
+			const local = localNamespaces(model)
+			for (const triple of model.triples) {
+				const object = triple.object
+				if (triple.predicate.iri === RDF_TYPE || REFERENCE_PREDICATES.has(triple.predicate.iri)) continue
+				if (!isTerm(object) || !local.has(namespaceOf(object.iri))) continue
+				if (indexer.getSubjects(object.iri).length > 0 || vocabulary.defines(object.iri)) continue
+				report(object.range, `'${object.surface}' is used but never defined in the workspace`)
+			}
+		},
+	},
+	{
+		// Classes of a loaded vocabulary that lacks them, or of a local namespace. Misspelled
+		// prefixed vocabulary terms are already reported as unknown terms.
+		id: "undefined-class",
+		severity: DiagnosticSeverity.Warning,
+		check({ model, indexer, vocabulary, report }) {
+			const local = localNamespaces(model)
+			for (const triple of model.triples) {
+				const cls = triple.object
+				if (triple.predicate.iri !== RDF_TYPE || !isTerm(cls) || indexer.getSubjects(cls.iri).length > 0) continue
+				const known = vocabulary.defines(cls.iri)
+				const undefinedClass = known === false ? cls.surface.startsWith("<") : known === undefined && local.has(namespaceOf(cls.iri))
+				if (undefinedClass) report(cls.range, `Class '${cls.surface}' is not defined in the workspace or a loaded vocabulary`)
+			}
+		},
+	},
+	{
+		id: "object-property-literal",
+		severity: DiagnosticSeverity.Warning,
+		check({ model, indexer, report }) {
+			const objectProperties = new Map<string, boolean>()
+			for (const triple of model.triples) {
+				if (!isLiteral(triple.object)) continue
+				const predicate = triple.predicate.iri
+				if (!objectProperties.has(predicate)) {
+					objectProperties.set(predicate, indexer.getObjects(predicate, RDF_TYPE).some((t) => t.object === `${OWL}ObjectProperty`))
+				}
+				if (!objectProperties.get(predicate)) continue
+				const surface = model.text.slice(model.offsetAt(triple.predicate.range.start), model.offsetAt(triple.predicate.range.end))
+				report(triple.object.range, `'${surface}' is an owl:ObjectProperty but has a literal value`)
+			}
+		},
+	},
+	{
+		id: "label-without-language",
+		severity: DiagnosticSeverity.Hint,
+		check({ model, report }) {
+			for (const triple of model.triples) {
+				const label = triple.object
+				if (!LABEL_PREDICATES.includes(triple.predicate.iri) || !isLiteral(label)) continue
+				if (label.language || label.datatype) continue
+				report(label.range, `Label "${label.value}" has no language tag`)
+			}
+		},
+	},
+]
+
+function isTerm(node: SyntaxTriple["object"]): node is TermNode {
+	return "iri" in node && !node.quoted
+}
+
+function isLiteral(node: SyntaxTriple["object"]): node is LiteralNode {
+	return "value" in node
+}
+
+// Subjects the document types with one of the types, at their first typing
+function typedSubjects(model: SyntaxModel, types: Set<string>): TermNode[] {
+	const found = new Map<string, TermNode>()
+	for (const triple of model.triples) {
+		const { subject, predicate, object } = triple
+		if (predicate.iri !== RDF_TYPE || !("iri" in subject) || !isTerm(object) || !types.has(object.iri)) continue
+		if (!found.has(subject.iri)) found.set(subject.iri, subject)
+	}
+	return [...found.values()]
+}
+
+function localNamespaces(model: SyntaxModel): Set<string> {
+	return new Set(model.subjects.map((s) => namespaceOf(s.iri)))
+}
+
+// The empty label reads as ':'
+export function displayPrefix(prefix: string): string {
+	return prefix.length > 0 ? prefix : ":"
+}
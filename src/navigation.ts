@@ -1,6 +1,14 @@
-import { DefinitionParams, Location, ReferenceParams, RenameParams, WorkspaceEdit, Range } from "vscode-languageserver/node"
-import { Indexer } from "./indexer"
-import { currentWord, rangeMatchesWord } from "./util"
+import {
+	DefinitionParams,
+	Location,
+	PrepareRenameParams,
+	ReferenceParams,
+	RenameParams,
+	WorkspaceEdit,
+	Range,
+} from "vscode-languageserver/node"
+import { IndexedLocation, Indexer } from "./indexer"
+import { currentWord, currentWordRange, rangeMatchesWord, resolveLabel } from "./util"
 import { TextDocuments } from "vscode-languageserver"
 import { TextDocument } from "vscode-languageserver-textdocument"
 
@@ -10,44 +18,79 @@ export class NavigationEngine {
 	definition(params: DefinitionParams): Location[] {
 		const doc = this.documents.get(params.textDocument.uri)
 		if (!doc) return []
+
+		const term = this.indexer.termAt(doc.uri, params.position)
+		if (term) {
+			const subjects = this.indexer.getSubjects(term.iri)
+			return toLocations(subjects.length > 0 ? subjects : this.indexer.getSymbols(term.iri))
+		}
+
 		const word = currentWord(doc, params.position)
 		if (!word) return []
-
 		const results: Location[] = []
 		results.push(...this.indexer.getPrefixes(word))
 		if (word.endsWith(":")) {
 			const trimmed = word.replace(/:$/, "")
 			results.push(...this.indexer.getPrefixes(trimmed))
 		}
-		results.push(...this.indexer.getSubjects(word))
-		results.push(...this.indexer.getSymbols(word))
 		return results
 	}
 
 	references(params: ReferenceParams): Location[] {
 		const doc = this.documents.get(params.textDocument.uri)
 		if (!doc) return []
+
+		const term = this.indexer.termAt(doc.uri, params.position)
+		if (term) {
+			return toLocations([...this.indexer.getSubjects(term.iri), ...this.indexer.getSymbols(term.iri)])
+		}
+
 		const word = currentWord(doc, params.position)
 		if (!word) return []
-
 		const locs: Location[] = []
-		locs.push(...this.indexer.getSubjects(word))
 		locs.push(...this.indexer.getPrefixes(word))
 		if (word.endsWith(":")) {
 			const trimmed = word.replace(/:$/, "")
 			locs.push(...this.indexer.getPrefixes(trimmed))
 		}
-		locs.push(...this.indexer.getSymbols(word))
 		return locs
 	}
 
-	rename(params: RenameParams): WorkspaceEdit | null {
+	/**
+	 * The indexed term at the position, or a declared prefix word, which `rename` can handle.
+	 */
+	prepareRename(params: PrepareRenameParams): { range: Range; placeholder: string } | null {
 		const doc = this.documents.get(params.textDocument.uri)
 		if (!doc) return null
+
+		const term = this.indexer.termAt(doc.uri, params.position)
+		if (term) return { range: term.range, placeholder: term.surface }
+
 		const word = currentWord(doc, params.position)
-		if (!word) return null
+		if (!word || this.indexer.getPrefixes(word.replace(/:$/, "")).length === 0) return null
+		return { range: currentWordRange(doc, params.position), placeholder: word }
+	}
+
+	rename(params: RenameParams): WorkspaceEdit | null {
+		const doc = this.documents.get(params.textDocument.uri)
+		if (!doc) return null
 
 		const changes: Record<string, { range: Range; newText: string }[]> = {}
+		const term = this.indexer.termAt(doc.uri, params.position)
+		if (term) {
+			const newIri = this.targetIri(doc.uri, term.iri, term.surface, params.newName)
+			if (!newIri) return null
+			for (const loc of toIndexedLocations(this.indexer.getSymbols(term.iri))) {
+				const openDoc = this.documents.get(loc.uri)
+				if (!rangeMatchesWord(loc.uri, loc.range, loc.surface, openDoc ?? null)) continue
+				if (!changes[loc.uri]) changes[loc.uri] = []
+				changes[loc.uri].push({ range: loc.range, newText: this.spell(loc.uri, loc.surface, newIri) })
+			}
+			return Object.keys(changes).length === 0 ? null : { changes }
+		}
+
+		const word = currentWord(doc, params.position)
+		if (!word) return null
 		const addEdits = (list?: Location[]) => {
 			if (!list) return
 			for (const loc of list) {
@@ -58,15 +101,64 @@ export class NavigationEngine {
 			}
 		}
 
-		addEdits(this.indexer.getSubjects(word))
 		addEdits(this.indexer.getPrefixes(word))
 		if (word.endsWith(":")) {
 			const trimmed = word.replace(/:$/, "")
 			addEdits(this.indexer.getPrefixes(trimmed))
 		}
-		addEdits(this.indexer.getSymbols(word))
 
 		if (Object.keys(changes).length === 0) return null
 		return { changes }
 	}
+
+	/**
+	 * The IRI a rename targets. `newName` may be a full `<IRI>`, a prefixed name in the
+	 * current document, or a bare local name that keeps the term's namespace.
+	 */
+	private targetIri(uri: string, oldIri: string, surface: string, newName: string): string | null {
+		const name = newName.trim()
+		if (name.startsWith("<") || name.includes(":")) {
+			return resolveLabel(name, this.indexer.getPrefixMap(uri), this.indexer.getBase(uri))
+		}
+		let namespace = oldIri.replace(/[^#/]*$/, "")
+		if (!surface.startsWith("<")) {
+			const resolved = this.indexer.resolve(uri, surface.slice(0, surface.indexOf(":") + 1))
+			if (resolved) namespace = resolved
+		}
+		return namespace + name
+	}
+
+	// Keeps each location's style: prefixed names stay prefixed when a declared prefix covers the
+	// new IRI, relative references stay relative to the document base
+	private spell(uri: string, surface: string, iri: string): string {
+		if (!surface.startsWith("<")) {
+			const map = this.indexer.getPrefixMap(uri)
+			const preferred = surface.slice(0, surface.indexOf(":"))
+			const candidates = Object.entries(map).sort(([a], [b]) => (a === preferred ? -1 : b === preferred ? 1 : 0))
+			for (const [prefix, namespace] of candidates) {
+				if (!iri.startsWith(namespace)) continue
+				const local = iri.slice(namespace.length)
+				if (/^[\w\-]([\w\-.]*[\w\-])?$/.test(local) || local === "") return `${prefix}:${local}`
+			}
+		}
+		if (surface.startsWith("<") && !/^<[A-Za-z][\w+.\-]*:/.test(surface)) {
+			const baseDir = this.indexer.getBase(uri).replace(/[^/]*$/, "")
+			if (iri.startsWith(baseDir)) return `<${iri.slice(baseDir.length)}>`
+		}
+		return `<${iri}>`
+	}
+}
+
+function toIndexedLocations(list: IndexedLocation[]): IndexedLocation[] {
+	const seen = new Set<string>()
+	return list.filter((loc) => {
+		const key = `${loc.uri}#${loc.range.start.line}:${loc.range.start.character}`
+		if (seen.has(key)) return false
+		seen.add(key)
+		return true
+	})
+}
+
+function toLocations(list: IndexedLocation[]): Location[] {
+	return toIndexedLocations(list).map(({ uri, range }) => ({ uri, range }))
 }
@@ -0,0 +1,470 @@
+import path from "path"
+import {
+	CodeAction,
+	CodeActionKind,
+	Diagnostic,
+	DiagnosticSeverity,
+	ErrorCodes,
+	Position,
+	Range,
+	ResponseError,
+	TextEdit,
+	WorkspaceEdit,
+} from "vscode-languageserver/node"
+import { DiagnosticCode } from "./codeActions"
+import { isLineBased } from "./formats"
+import { Indexer } from "./indexer"
+import { LintFinding, LintRule, displayPrefix, ruleGroup } from "./lint"
+import { Token } from "./lexer"
+import { PrefixDecl, SyntaxModel } from "./syntax"
+import { toFsPath } from "./util"
+
+/**
+ * Commands accepted through `workspace/executeCommand`. Each takes an optional document URI as
+ * its last argument and applies to every indexed document without one; `UseStyle` first takes
+ * the target style, `"turtle"` or `"sparql"`. `ChangeNamespace` takes the old and the new
+ * namespace IRI and always applies to the whole workspace.
+ */
+export const PrefixCommand = {
+	Organize: "turtle.organizePrefixes",
+	RemoveUnused: "turtle.removeUnusedPrefixes",
+	UseStyle: "turtle.usePrefixStyle",
+	ContractIris: "turtle.contractIris",
+	ChangeNamespace: "turtle.changeNamespace",
+} as const
+
+export const PrefixActionKind = {
+	Organize: CodeActionKind.SourceOrganizeImports,
+	RemoveUnused: `${CodeActionKind.Source}.removeUnusedPrefixes`,
+	TurtleStyle: `${CodeActionKind.Source}.prefixStyle.turtle`,
+	SparqlStyle: `${CodeActionKind.Source}.prefixStyle.sparql`,
+	ContractIris: `${CodeActionKind.Source}.contractIris`,
+} as const
+
+// `@prefix ex: <...> .` and `@base <...> .`, or `PREFIX ex: <...>` and `BASE <...>`
+export type PrefixStyle = "turtle" | "sparql"
+
+export type PrefixOperation = "organize" | "removeUnused" | "turtleStyle" | "sparqlStyle" | "contractIris"
+
+const ACTIONS: Array<{ kind: string; operation: PrefixOperation; title: string }> = [
+	{ kind: PrefixActionKind.Organize, operation: "organize", title: "Organize prefixes" },
+	{ kind: PrefixActionKind.RemoveUnused, operation: "removeUnused", title: "Remove unused prefixes" },
+	{ kind: PrefixActionKind.TurtleStyle, operation: "turtleStyle", title: "Use @prefix declarations" },
+	{ kind: PrefixActionKind.SparqlStyle, operation: "sparqlStyle", title: "Use PREFIX declarations" },
+	{ kind: PrefixActionKind.ContractIris, operation: "contractIris", title: "Contract IRIs with declared prefixes" },
+]
+
+// Local names written without escapes, as the rename refactoring spells them
+const LOCAL_NAME = /^[\w\-]([\w\-.]*[\w\-])?$/
+
+// PN_PREFIX of the Turtle grammar, the empty label included
+const PN_CHARS_BASE =
+	"A-Za-z\\u00C0-\\u00D6\\u00D8-\\u00F6\\u00F8-\\u02FF\\u0370-\\u037D\\u037F-\\u1FFF\\u200C-\\u200D" +
+	"\\u2070-\\u218F\\u2C00-\\u2FEF\\u3001-\\uD7FF\\uF900-\\uFDCF\\uFDF0-\\uFFFD\\u{10000}-\\u{EFFFF}"
+const PN_CHARS = `${PN_CHARS_BASE}_\\-0-9\\u00B7\\u0300-\\u036F\\u203F-\\u2040`
+const PN_PREFIX = new RegExp(`^(?:[${PN_CHARS_BASE}](?:[${PN_CHARS}.]*[${PN_CHARS}])?)?$`, "u")
+
+// Absolute IRIs that can be written between angle brackets as they are
+const ABSOLUTE_IRI = /^[A-Za-z][\w+.\-]*:[^\s<>"{}|^`\\]*$/
+
+export function isPrefixName(label: string): boolean {
+	return PN_PREFIX.test(label)
+}
+
+export function isLocalName(local: string): boolean {
+	return LOCAL_NAME.test(local)
+}
+
+export function isAbsoluteIri(iri: string): boolean {
+	return ABSOLUTE_IRI.test(iri)
+}
+
+// What a rename at a position applies to
+type RenameTarget = { kind: "prefix"; prefix: string; range: Range } | { kind: "namespace"; namespace: string; range: Range }
+
+/**
+ * Uses of each prefix label in the document's terms, keyed as written (`""` for the empty
+ * prefix). Labels that are declared but never used are absent.
+ */
+export function countPrefixUsage(model: SyntaxModel): Record<string, number> {
+	const usage: Record<string, number> = {}
+	for (const term of model.terms) {
+		if (term.surface.startsWith("<")) continue
+		const prefix = term.surface.slice(0, term.surface.indexOf(":"))
+		usage[prefix] = (usage[prefix] || 0) + 1
+	}
+	return usage
+}
+
+/**
+ * Whole-document clean-ups of the prefix declarations and of the IRIs they abbreviate, offered
+ * as source actions and as commands, the renames of prefix labels and namespaces, and the
+ * checks of declarations against the rest of the workspace. Line-based formats have no
+ * prefixes and are left alone by the clean-ups.
+ */
+export class PrefixEngine {
+	constructor(private indexer: Indexer, private workspaceModels: () => SyntaxModel[]) {}
+
+	actions(model: SyntaxModel, only?: string[]): CodeAction[] {
+		const wants = (kind: string) => !only || only.some((o) => kind === o || kind.startsWith(`${o}.`))
+		const actions: CodeAction[] = []
+		for (const { kind, operation, title } of ACTIONS) {
+			if (!wants(kind)) continue
+			const edits = this.edits(model, operation)
+			if (edits.length > 0) actions.push({ title, kind, edit: { changes: { [model.uri]: edits } } })
+		}
+		return actions
+	}
+
+	edits(model: SyntaxModel, operation: PrefixOperation): TextEdit[] {
+		if (isLineBased(model.format)) return []
+		switch (operation) {
+			case "organize":
+				return this.organize(model)
+			case "removeUnused":
+				return this.removeUnused(model)
+			case "turtleStyle":
+				return this.convertStyle(model, "turtle")
+			case "sparqlStyle":
+				return this.convertStyle(model, "sparql")
+			case "contractIris":
+				return this.contractIris(model)
+		}
+	}
+
+	/**
+	 * The prefix label (in a declaration or a prefixed name, up to its colon) or the namespace IRI
+	 * of a declaration at the position, with the text a rename starts from. Null elsewhere, where
+	 * renames apply to terms.
+	 */
+	prepareRename(model: SyntaxModel, position: Position): { range: Range; placeholder: string } | null {
+		const target = renameTarget(model, position)
+		if (!target) return null
+		return { range: target.range, placeholder: target.kind === "prefix" ? target.prefix : target.namespace }
+	}
+
+	/**
+	 * Renames the prefix label at the position throughout the document, or moves the namespace of
+	 * the declaration at the position to the IRI given as the new name across the workspace.
+	 * Null when the position holds neither; rejects names that cannot be written.
+	 */
+	rename(model: SyntaxModel, position: Position, newName: string): WorkspaceEdit | null {
+		const target = renameTarget(model, position)
+		if (!target) return null
+		if (target.kind === "namespace") {
+			const namespace = newName.trim().replace(/^<(.*)>$/, "$1")
+			if (!isAbsoluteIri(namespace)) {
+				throw new ResponseError(ErrorCodes.InvalidParams, `'${newName}' is not an absolute IRI`)
+			}
+			return this.changeNamespace(target.namespace, namespace)
+		}
+
+		const prefix = newName.trim().replace(/:$/, "")
+		if (!isPrefixName(prefix)) {
+			throw new ResponseError(ErrorCodes.InvalidParams, `'${newName}' is not a valid prefix name`)
+		}
+		if (prefix === target.prefix) return null
+		const edit = this.renamePrefix(model, target.prefix, prefix)
+		if (!edit) throw new ResponseError(ErrorCodes.InvalidParams, `Prefix '${prefix}:' is already declared in this document`)
+		return edit
+	}
+
+	/**
+	 * Relabels the declarations of a prefix and the prefixed names using it. Null when the new
+	 * label is declared in the document already.
+	 */
+	renamePrefix(model: SyntaxModel, from: string, to: string): WorkspaceEdit | null {
+		if (model.prefixes.some((decl) => decl.prefix === to)) return null
+		const edits = model.prefixes.filter((decl) => decl.prefix === from).map((decl) => TextEdit.replace(decl.range, to))
+		for (const term of model.terms) {
+			if (term.surface.startsWith("<") || term.surface.slice(0, term.surface.indexOf(":")) !== from) continue
+			edits.push(TextEdit.replace(model.rangeOf(term.start, term.start + from.length), to))
+		}
+		return { changes: { [model.uri]: edits } }
+	}
+
+	// Rules for declarations the document never uses, and for the consistency checks
+
+	lintRules(): LintRule[] {
+		const unused: LintRule = {
+			id: DiagnosticCode.UnusedPrefix,
+			severity: DiagnosticSeverity.Information,
+			check: ({ model, report }) => {
+				const usage = countPrefixUsage(model)
+				for (const decl of model.prefixes) {
+					if (usage[decl.prefix]) continue
+					report(decl.range, `Prefix '${displayPrefix(decl.prefix)}' is never used`, { prefix: decl.prefix })
+				}
+			},
+		}
+		const consistency = ruleGroup(
+			{
+				[DiagnosticCode.NonCanonicalPrefix]: DiagnosticSeverity.Warning,
+				[DiagnosticCode.ConflictingPrefix]: DiagnosticSeverity.Warning,
+				[DiagnosticCode.InconsistentPrefix]: DiagnosticSeverity.Information,
+			},
+			({ model, settings }) => this.consistency(model, settings.prefixRegistry)
+		)
+		return [unused, ...consistency]
+	}
+
+	// Deletes the declaration whose label is at the position, with its line when nothing else is on it
+	removeDeclaration(model: SyntaxModel, position: Position): TextEdit | null {
+		const decl = model.prefixes.find(
+			(d) => d.range.start.line === position.line && d.range.start.character === position.character
+		)
+		return decl ? removal(model, decl) : null
+	}
+
+	/**
+	 * Declarations that deviate from the prefix registry, and declarations that disagree with
+	 * other workspace documents: the label bound to another namespace there, or the namespace
+	 * given another label. Registered declarations are only checked against the registry.
+	 */
+	private consistency(model: SyntaxModel, registry: Record<string, string>): LintFinding[] {
+		const findings: LintFinding[] = []
+		const byLabel = new Map<string, Map<string, string[]>>()
+		const byNamespace = new Map<string, Map<string, string[]>>()
+		const add = (index: Map<string, Map<string, string[]>>, key: string, value: string, uri: string) => {
+			if (!index.has(key)) index.set(key, new Map())
+			const uris = index.get(key)!
+			uris.set(value, [...(uris.get(value) ?? []), uri])
+		}
+		for (const uri of this.indexer.getDocumentUris()) {
+			if (uri === model.uri) continue
+			for (const [prefix, namespace] of Object.entries(this.indexer.getPrefixMap(uri))) {
+				add(byLabel, prefix, namespace, uri)
+				add(byNamespace, namespace, prefix, uri)
+			}
+		}
+		// The most widely used alternative, with the documents using it
+		const alternative = (bindings: Map<string, string[]> | undefined, own: string) =>
+			[...(bindings ?? [])].filter(([value]) => value !== own).sort((a, b) => b[1].length - a[1].length)[0]
+
+		for (const decl of model.prefixes) {
+			const registered = registry[decl.prefix]
+			const canonical = Object.keys(registry).find((prefix) => registry[prefix] === decl.iri)
+			if (canonical !== undefined && canonical !== decl.prefix) {
+				findings.push({
+					range: decl.range,
+					message: `Namespace <${decl.iri}> is registered as '${canonical}:'`,
+					code: DiagnosticCode.NonCanonicalPrefix,
+					data: { prefix: decl.prefix, canonical },
+				})
+				continue
+			}
+			if (registered !== undefined && registered !== decl.iri) {
+				const iri = declarationIri(model, decl)
+				findings.push({
+					range: iri ? model.rangeOf(iri.start, iri.end) : decl.range,
+					message: `Prefix '${decl.prefix}:' is registered for <${registered}>`,
+					code: DiagnosticCode.NonCanonicalPrefix,
+					data: { prefix: decl.prefix, namespace: registered },
+				})
+				continue
+			}
+			if (registered !== undefined) continue
+
+			const conflict = alternative(byLabel.get(decl.prefix), decl.iri)
+			if (conflict) {
+				findings.push({
+					range: decl.range,
+					message: `Prefix '${decl.prefix}:' is bound to <${conflict[0]}> in ${describeFiles(conflict[1])}`,
+					code: DiagnosticCode.ConflictingPrefix,
+					data: { prefix: decl.prefix, namespace: conflict[0] },
+				})
+			}
+			const label = alternative(byNamespace.get(decl.iri), decl.prefix)
+			if (label) {
+				findings.push({
+					range: decl.range,
+					message: `Namespace <${decl.iri}> is declared as '${label[0]}:' in ${describeFiles(label[1])}`,
+					code: DiagnosticCode.InconsistentPrefix,
+					data: { prefix: decl.prefix, label: label[0] },
+				})
+			}
+		}
+		return findings
+	}
+
+	/**
+	 * Moves every IRI under `from` to `to` across the workspace: prefix and base declarations
+	 * and IRIs written in full. Prefixed names follow their declaration and relative IRIs their
+	 * base, so they are left as written. A `from` that is not an absolute IRI yields no edits.
+	 */
+	changeNamespace(from: string, to: string): WorkspaceEdit {
+		const changes: Record<string, TextEdit[]> = {}
+		if (!isAbsoluteIri(from)) {
+			return { changes }
+		}
+		const moved = (iri: string) => `<${to}${iri.slice(from.length)}>`
+		for (const model of this.workspaceModels()) {
+			if (!model.text.includes(from)) continue
+			const edits: TextEdit[] = []
+			for (const decl of model.prefixes) {
+				const iri = declarationIri(model, decl)
+				if (iri && decl.iri.startsWith(from)) edits.push(TextEdit.replace(model.rangeOf(iri.start, iri.end), moved(decl.iri)))
+			}
+			model.tokens.forEach((keyword, k) => {
+				const iri = model.tokens[k + 1]
+				if (keyword.type !== "directive" || !/base$/i.test(keyword.text) || iri?.type !== "iri") return
+				const written = iri.text.slice(1, -1)
+				if (written.startsWith(from)) edits.push(TextEdit.replace(model.rangeOf(iri.start, iri.end), moved(written)))
+			})
+			for (const term of model.terms) {
+				if (!term.surface.startsWith(`<${from}`)) continue
+				edits.push(TextEdit.replace(term.range, moved(term.iri)))
+			}
+			if (edits.length > 0) changes[model.uri] = edits
+		}
+		return { changes }
+	}
+
+	/**
+	 * Rewrites the block of declarations before the first statement: sorted by label, one per
+	 * line, without unused labels and with only the last of repeated ones, which is the binding
+	 * that was in effect. Comments and base directives between them move to the top of the
+	 * block, trailing comments stay with their declaration. Declarations before a base
+	 * directive are not moved past it, since it would change how relative IRIs resolve.
+	 */
+	private organize(model: SyntaxModel): TextEdit[] {
+		const header = headerDeclarations(model)
+		if (header.length === 0) return []
+		const usage = countPrefixUsage(model)
+		const eol = model.text.includes("\r\n") ? "\r\n" : "\n"
+
+		const preamble: string[] = []
+		const entries = new Map<string, string>()
+		let end = model.offsetAt(header[0].declRange.start)
+		for (const decl of header) {
+			const start = model.offsetAt(decl.declRange.start)
+			const gap = model.text.slice(end, start).split(/\r?\n/)
+			if (gap.length > 1) gap.shift()
+			preamble.push(...gap.map((line) => line.trim()).filter((line) => line))
+			end = model.offsetAt(decl.declRange.end)
+			const rest = model.text.slice(end).match(/^[ \t]*(#[^\r\n]*)/)
+			if (rest) end += rest[0].length
+			entries.delete(decl.prefix)
+			if (usage[decl.prefix]) {
+				entries.set(decl.prefix, declaration(model, decl, decl.sparql ? "sparql" : "turtle") + (rest ? ` ${rest[1]}` : ""))
+			}
+		}
+
+		const sorted = [...entries.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([, line]) => line)
+		const range = { start: header[0].declRange.start, end: model.positionAt(end) }
+		const replacement = [...preamble, ...sorted].join(eol)
+		if (replacement === model.text.slice(model.offsetAt(range.start), end)) return []
+		return [TextEdit.replace(range, replacement)]
+	}
+
+	// Declarations anywhere in the document whose label no term uses
+	private removeUnused(model: SyntaxModel): TextEdit[] {
+		const usage = countPrefixUsage(model)
+		return model.prefixes.filter((decl) => !usage[decl.prefix]).map((decl) => removal(model, decl))
+	}
+
+	private convertStyle(model: SyntaxModel, style: PrefixStyle): TextEdit[] {
+		const edits: TextEdit[] = []
+		const tokens = model.tokens.filter((t) => t.type !== "comment")
+		tokens.forEach((keyword, k) => {
+			if (keyword.type !== "directive" || !/(prefix|base)$/i.test(keyword.text)) return
+			const sparql = !keyword.text.startsWith("@")
+			if (sparql === (style === "sparql")) return
+			const isPrefix = /prefix$/i.test(keyword.text)
+			const target: Token | undefined = tokens[k + (isPrefix ? 2 : 1)]
+			if (target?.type !== "iri" || (isPrefix && tokens[k + 1]?.type !== "pname")) return
+			const next: Token | undefined = tokens[k + (isPrefix ? 3 : 2)]
+			const name = isPrefix ? "prefix" : "base"
+			if (style === "sparql") {
+				edits.push(TextEdit.replace(model.rangeOf(keyword.start, keyword.end), name.toUpperCase()))
+				if (next?.text === ".") edits.push(TextEdit.del(model.rangeOf(target.end, next.end)))
+			} else {
+				edits.push(TextEdit.replace(model.rangeOf(keyword.start, keyword.end), `@${name}`))
+				if (next?.text !== ".") edits.push(TextEdit.insert(model.positionAt(target.end), " ."))
+			}
+		})
+		return edits
+	}
+
+	/**
+	 * Absolute IRIs written in full that a prefix declared before them covers, using the longest
+	 * matching namespace. IRIs whose remainder is not a plain local name are kept as written.
+	 */
+	private contractIris(model: SyntaxModel): TextEdit[] {
+		const edits: TextEdit[] = []
+		const declarations = [...model.prefixes]
+		const declared: Record<string, string> = {}
+		for (const term of [...model.terms].sort((a, b) => a.start - b.start)) {
+			while (declarations.length > 0 && model.offsetAt(declarations[0].declRange.end) <= term.start) {
+				const decl = declarations.shift()!
+				declared[decl.prefix] = decl.iri
+			}
+			if (!/^<[A-Za-z][\w+.\-]*:/.test(term.surface)) continue
+			const match = Object.entries(declared)
+				.filter(([, namespace]) => term.iri.startsWith(namespace) && isLocalName(term.iri.slice(namespace.length)))
+				.sort(([, a], [, b]) => b.length - a.length)[0]
+			if (match) edits.push(TextEdit.replace(term.range, `${match[0]}:${term.iri.slice(match[1].length)}`))
+		}
+		return edits
+	}
+}
+
+// Prefix declarations before the first statement that come after every base directive there
+function headerDeclarations(model: SyntaxModel): PrefixDecl[] {
+	const firstStatement = model.statements[0]?.start ?? model.text.length
+	const lastBase = model.tokens
+		.filter((t) => t.type === "directive" && /base$/i.test(t.text) && t.start < firstStatement)
+		.reduce((last, t) => Math.max(last, t.start), -1)
+	return model.prefixes.filter((decl) => {
+		const start = model.offsetAt(decl.declRange.start)
+		return start > lastBase && start < firstStatement
+	})
+}
+
+// The declaration spelled in the given style, with its IRI as written
+function declaration(model: SyntaxModel, decl: PrefixDecl, style: PrefixStyle): string {
+	const iri = declarationIri(model, decl)?.text ?? `<${decl.iri}>`
+	return style === "sparql" ? `PREFIX ${decl.prefix}: ${iri}` : `@prefix ${decl.prefix}: ${iri} .`
+}
+
+function describeFiles(uris: string[]): string {
+	const first = path.basename(toFsPath(uris[0]))
+	return uris.length === 1 ? first : `${first} and ${uris.length - 1} other file${uris.length > 2 ? "s" : ""}`
+}
+
+function declarationIri(model: SyntaxModel, decl: PrefixDecl): Token | undefined {
+	const start = model.offsetAt(decl.declRange.start)
+	const end = model.offsetAt(decl.declRange.end)
+	return model.tokens.find((t) => t.type === "iri" && t.start >= start && t.end <= end)
+}
+
+function renameTarget(model: SyntaxModel, position: Position): RenameTarget | null {
+	const offset = model.offsetAt(position)
+	for (const decl of model.prefixes) {
+		const label = model.offsetAt(decl.range.start)
+		if (offset >= label && offset <= model.offsetAt(decl.range.end) + 1) {
+			return { kind: "prefix", prefix: decl.prefix, range: decl.range }
+		}
+		const iri = declarationIri(model, decl)
+		if (iri && offset > iri.start && offset < iri.end) {
+			return { kind: "namespace", namespace: decl.iri, range: model.rangeOf(iri.start + 1, iri.end - 1) }
+		}
+	}
+	const term = model.terms.find((t) => !t.surface.startsWith("<") && offset >= t.start && offset <= t.end)
+	if (!term) return null
+	const prefix = term.surface.slice(0, term.surface.indexOf(":"))
+	if (offset > term.start + prefix.length) return null
+	return { kind: "prefix", prefix, range: model.rangeOf(term.start, term.start + prefix.length) }
+}
+
+// Deletes the declaration's lines when nothing else is written on them
+function removal(model: SyntaxModel, decl: PrefixDecl): TextEdit {
+	const { start, end } = decl.declRange
+	const lineStart = model.offsetAt({ line: start.line, character: 0 })
+	const nextLine = model.offsetAt({ line: end.line + 1, character: 0 })
+	const before = model.text.slice(lineStart, model.offsetAt(start))
+	const after = model.text.slice(model.offsetAt(end), nextLine)
+	if (!before.trim() && !after.trim()) return TextEdit.del({ start: { line: start.line, character: 0 }, end: model.positionAt(nextLine) })
+	const trailing = after.match(/^[ \t]*/)![0].length
+	return TextEdit.del({ start, end: model.positionAt(model.offsetAt(end) + trailing) })
+}
@@ -0,0 +1,273 @@
+import { DataFactory, Quad, Quad_Object, Quad_Subject } from "n3"
+
+const { namedNode, blankNode, literal, quad } = DataFactory
+
+const RDF = "http://www.w3.org/1999/02/22-rdf-syntax-ns#"
+export const XML_NAMESPACE = "http://www.w3.org/XML/1998/namespace"
+const XMLNS = "http://www.w3.org/2000/xmlns/"
+
+// rdf: attributes that are syntax rather than property attributes; also accepted unqualified
+const SYNTAX_ATTRIBUTES = new Set(["about", "ID", "nodeID", "resource", "datatype", "parseType"])
+
+const PREDEFINED_ENTITIES: Record<string, string> = { lt: "<", gt: ">", amp: "&", quot: '"', apos: "'" }
+
+export type XmlElement = {
+	// Namespace IRI followed by the local name
+	name: string
+	// Expanded attribute names; unqualified names are kept as written
+	attributes: Map<string, string>
+	children: XmlElement[]
+	text: string
+	// Inner markup as written, for `rdf:parseType="Literal"`
+	raw: string
+}
+
+export type RdfXmlDocument = {
+	quads: Quad[]
+	// Namespace declarations of the document, first binding of a prefix wins
+	prefixes: Record<string, string>
+}
+
+/**
+ * Reads RDF/XML as written by ontology editors: node elements (typed or `rdf:Description`),
+ * property elements and attributes, `rdf:parseType` Resource, Literal and Collection,
+ * `xml:base`, `xml:lang` and the entities declared in the DOCTYPE. Reification through
+ * `rdf:ID` on property elements is ignored. Throws on malformed XML.
+ */
+export function parseRdfXml(text: string, baseIRI: string): RdfXmlDocument {
+	const { root, prefixes } = parseXml(text)
+	const reader = new RdfXmlReader()
+	if (root.name === `${RDF}RDF`) {
+		const { base, lang } = scope(root, baseIRI, "")
+		for (const child of root.children) reader.node(child, base, lang)
+	} else {
+		reader.node(root, baseIRI, "")
+	}
+	return { quads: reader.quads, prefixes }
+}
+
+class RdfXmlReader {
+	readonly quads: Quad[] = []
+
+	node(element: XmlElement, parentBase: string, parentLang: string): Quad_Subject {
+		const { base, lang } = scope(element, parentBase, parentLang)
+		const about = syntaxAttribute(element, "about")
+		const id = syntaxAttribute(element, "ID")
+		const nodeId = syntaxAttribute(element, "nodeID")
+		const subject =
+			about !== undefined
+				? namedNode(resolve(about, base))
+				: id !== undefined
+					? namedNode(resolve(`#${id}`, base))
+					: nodeId !== undefined
+						? blankNode(nodeId)
+						: blankNode()
+		if (element.name !== `${RDF}Description`) this.emit(subject, `${RDF}type`, namedNode(element.name))
+		this.propertyAttributes(element, subject, base, lang)
+		this.properties(element, subject, base, lang)
+		return subject
+	}
+
+	private properties(element: XmlElement, subject: Quad_Subject, base: string, lang: string) {
+		let index = 1
+		for (const child of element.children) {
+			const predicate = child.name === `${RDF}li` ? `${RDF}_${index++}` : child.name
+			this.property(child, subject, predicate, base, lang)
+		}
+	}
+
+	private property(
+		element: XmlElement,
+		subject: Quad_Subject,
+		predicate: string,
+		parentBase: string,
+		parentLang: string
+	) {
+		const { base, lang } = scope(element, parentBase, parentLang)
+		const parseType = syntaxAttribute(element, "parseType")
+		if (parseType === "Resource") {
+			const object = blankNode()
+			this.emit(subject, predicate, object)
+			this.properties(element, object, base, lang)
+			return
+		}
+		if (parseType === "Collection") {
+			const items = element.children.map((child) => this.node(child, base, lang))
+			let list: Quad_Object = namedNode(`${RDF}nil`)
+			for (const item of items.reverse()) {
+				const cell = blankNode()
+				this.emit(cell, `${RDF}first`, item)
+				this.emit(cell, `${RDF}rest`, list)
+				list = cell
+			}
+			this.emit(subject, predicate, list)
+			return
+		}
+		if (parseType === "Literal") {
+			this.emit(subject, predicate, literal(element.raw, namedNode(`${RDF}XMLLiteral`)))
+			return
+		}
+		if (element.children.length > 0) {
+			this.emit(subject, predicate, this.node(element.children[0], base, lang))
+			return
+		}
+
+		const resource = syntaxAttribute(element, "resource")
+		const nodeId = syntaxAttribute(element, "nodeID")
+		const described = [...element.attributes.keys()].some(isPropertyAttribute)
+		if (resource !== undefined || nodeId !== undefined || described) {
+			const object =
+				resource !== undefined ? namedNode(resolve(resource, base)) : nodeId !== undefined ? blankNode(nodeId) : blankNode()
+			this.emit(subject, predicate, object)
+			this.propertyAttributes(element, object, base, lang)
+			return
+		}
+		const datatype = syntaxAttribute(element, "datatype")
+		const tag = datatype !== undefined ? namedNode(resolve(datatype, base)) : lang || undefined
+		this.emit(subject, predicate, literal(element.text, tag))
+	}
+
+	private propertyAttributes(element: XmlElement, subject: Quad_Subject, base: string, lang: string) {
+		for (const [name, value] of element.attributes) {
+			if (!isPropertyAttribute(name)) continue
+			this.emit(subject, name, name === `${RDF}type` ? namedNode(resolve(value, base)) : literal(value, lang || undefined))
+		}
+	}
+
+	private emit(subject: Quad_Subject, predicate: string, object: Quad_Object) {
+		this.quads.push(quad(subject, namedNode(predicate), object))
+	}
+}
+
+function syntaxAttribute(element: XmlElement, name: string): string | undefined {
+	return element.attributes.get(`${RDF}${name}`) ?? element.attributes.get(name)
+}
+
+function isPropertyAttribute(name: string): boolean {
+	if (name.startsWith(XML_NAMESPACE) || name.startsWith(XMLNS) || !name.includes(":")) return false
+	return !(name.startsWith(RDF) && SYNTAX_ATTRIBUTES.has(name.slice(RDF.length)))
+}
+
+function scope(element: XmlElement, base: string, lang: string): { base: string; lang: string } {
+	const xmlBase = element.attributes.get(`${XML_NAMESPACE}base`)
+	return {
+		base: xmlBase !== undefined ? resolve(xmlBase, base) : base,
+		lang: element.attributes.get(`${XML_NAMESPACE}lang`) ?? lang,
+	}
+}
+
+function resolve(reference: string, base: string): string {
+	try {
+		return new URL(reference, base).toString()
+	} catch {
+		return reference
+	}
+}
+
+const START_TAG = /<([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/y
+const ATTRIBUTE = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g
+const ENTITY_DECLARATION = /<!ENTITY\s+([^\s%]+)\s+(?:"([^"]*)"|'([^']*)')\s*>/g
+
+type OpenElement = { element: XmlElement; namespaces: Record<string, string>; innerStart: number; tag: string }
+
+/**
+ * A namespace-aware XML tree, enough for RDF/XML and OASIS catalogs: comments, processing
+ * instructions and CDATA are handled, the DOCTYPE only contributes its entity declarations.
+ * Text is kept for leaf elements only.
+ */
+export function parseXml(text: string): { root: XmlElement; prefixes: Record<string, string> } {
+	const entities: Record<string, string> = { ...PREDEFINED_ENTITIES }
+	const prefixes: Record<string, string> = {}
+	const stack: OpenElement[] = []
+	let root: XmlElement | undefined
+	let i = 0
+
+	const fail = (message: string): never => {
+		const line = text.slice(0, i).split("\n").length
+		throw new Error(`${message} at line ${line}`)
+	}
+	const skipPast = (terminator: string) => {
+		const end = text.indexOf(terminator, i)
+		if (end < 0) fail(`Unterminated markup, expected '${terminator}'`)
+		i = end + terminator.length
+	}
+	const decode = (value: string) =>
+		value.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[\w.\-]+);/g, (match, name: string) => {
+			if (name.startsWith("#x")) return String.fromCodePoint(parseInt(name.slice(2), 16))
+			if (name.startsWith("#")) return String.fromCodePoint(parseInt(name.slice(1), 10))
+			return entities[name] ?? match
+		})
+
+	while (i < text.length) {
+		if (text.startsWith("<!--", i)) {
+			skipPast("-->")
+		} else if (text.startsWith("<?", i)) {
+			skipPast("?>")
+		} else if (text.startsWith("<![CDATA[", i)) {
+			const start = i + 9
+			skipPast("]]>")
+			if (stack.length > 0) stack[stack.length - 1].element.text += text.slice(start, i - 3)
+		} else if (text.startsWith("<!DOCTYPE", i)) {
+			const subsetStart = text.indexOf("[", i)
+			const close = text.indexOf(">", i)
+			if (subsetStart >= 0 && (close < 0 || subsetStart < close)) {
+				const subsetEnd = text.indexOf("]", subsetStart)
+				if (subsetEnd < 0) fail("Unterminated DOCTYPE")
+				for (const match of text.slice(subsetStart, subsetEnd).matchAll(ENTITY_DECLARATION)) {
+					entities[match[1]] = decode(match[2] ?? match[3])
+				}
+				i = subsetEnd
+			}
+			skipPast(">")
+		} else if (text.startsWith("</", i)) {
+			const end = text.indexOf(">", i)
+			if (end < 0) fail("Unterminated end tag")
+			const tag = text.slice(i + 2, end).trim()
+			const open = stack.pop()
+			if (!open || open.tag !== tag) fail(`Unexpected end tag '${tag}'`)
+			open!.element.raw = text.slice(open!.innerStart, i)
+			if (open!.element.children.length > 0) open!.element.text = ""
+			i = end + 1
+		} else if (text[i] === "<") {
+			START_TAG.lastIndex = i
+			const match = START_TAG.exec(text)
+			if (!match) fail("Malformed start tag")
+			const [whole, tag, attributeText, selfClosing] = match!
+			const raw: Array<[string, string]> = [...attributeText.matchAll(ATTRIBUTE)].map((a) => [a[1], decode(a[2] ?? a[3])])
+			const namespaces = { ...(stack.length > 0 ? stack[stack.length - 1].namespaces : { xml: XML_NAMESPACE }) }
+			for (const [name, value] of raw) {
+				if (name === "xmlns") namespaces[""] = value
+				else if (name.startsWith("xmlns:")) namespaces[name.slice(6)] = value
+				else continue
+				const prefix = name === "xmlns" ? "" : name.slice(6)
+				if (!(prefix in prefixes)) prefixes[prefix] = value
+			}
+			const expand = (name: string, isAttribute: boolean): string => {
+				const colon = name.indexOf(":")
+				if (colon < 0) return isAttribute ? name : `${namespaces[""] ?? ""}${name}`
+				const namespace = namespaces[name.slice(0, colon)]
+				if (namespace === undefined) fail(`Undeclared namespace prefix in '${name}'`)
+				return namespace + name.slice(colon + 1)
+			}
+			const element: XmlElement = { name: expand(tag, false), attributes: new Map(), children: [], text: "", raw: "" }
+			for (const [name, value] of raw) {
+				if (name === "xmlns" || name.startsWith("xmlns:")) continue
+				element.attributes.set(expand(name, true), value)
+			}
+			if (stack.length > 0) stack[stack.length - 1].element.children.push(element)
+			else if (root) fail("More than one root element")
+			else root = element
+			i += whole.length
+			if (!selfClosing) stack.push({ element, namespaces, innerStart: i, tag })
+		} else {
+			const end = text.indexOf("<", i)
+			const chunk = text.slice(i, end < 0 ? text.length : end)
+			if (stack.length > 0) stack[stack.length - 1].element.text += decode(chunk)
+			else if (chunk.trim()) fail("Text outside the root element")
+			i = end < 0 ? text.length : end
+		}
+	}
+	if (stack.length > 0) fail(`Unclosed element '${stack[stack.length - 1].tag}'`)
+	if (!root) fail("No root element")
+	return { root: root!, prefixes }
+}
@@ -0,0 +1,272 @@
+import { CodeAction, CodeActionKind, Position, Range, TextEdit, WorkspaceEdit } from "vscode-languageserver/node"
+import { isLineBased } from "./formats"
+import { Indexer } from "./indexer"
+import { Token } from "./lexer"
+import { isLocalName } from "./prefixes"
+import { BlankNodeNode, Statement, SyntaxModel, TermNode } from "./syntax"
+
+/**
+ * `ExtractBlankNode` takes the document URI, a position inside the `[ ... ]` and the name to
+ * give the node, as a prefixed name or `<IRI>`; the code action derives one instead.
+ */
+export const RefactoringCommand = {
+	ExtractBlankNode: "turtle.extractBlankNode",
+} as const
+
+// Indentation of continuation lines when the document has none to copy
+const DEFAULT_INDENT = "    "
+
+const OPENING = new Set(["[", "(", "<<", "{|", "{"])
+const CLOSING = new Set(["]", ")", ">>", "|}", "}"])
+
+/**
+ * Restructuring of subject blocks: extracting a `[ ... ]` property list into a named subject,
+ * inlining a subject referenced once back into its referrer, and splitting or merging the
+ * blocks of a subject. Line-based formats have no blocks to restructure.
+ */
+export class RefactoringEngine {
+	constructor(private indexer: Indexer) {}
+
+	actions(model: SyntaxModel, range: Range, only?: string[]): CodeAction[] {
+		if (isLineBased(model.format)) return []
+		const wants = (kind: string) => !only || only.some((o) => kind === o || kind.startsWith(`${o}.`))
+		const offset = model.offsetAt(range.start)
+		const actions: CodeAction[] = []
+		const action = (title: string, kind: string, edit: WorkspaceEdit | null) => {
+			if (edit) actions.push({ title, kind, edit })
+		}
+
+		if (wants(CodeActionKind.RefactorExtract)) {
+			const node = propertyListAt(model, offset)
+			if (node) {
+				const name = this.derivedName(model, node)
+				action(`Extract blank node to '${name}'`, CodeActionKind.RefactorExtract, this.extract(model, node, name))
+			}
+		}
+		const statement = model.statements.find((s) => s.start <= offset && offset <= s.end)
+		const subject = statement?.subject
+		if (!statement || !subject || subject.quoted || subject.start !== statement.start) return actions
+
+		if (wants(CodeActionKind.RefactorInline)) {
+			action(`Inline '${subject.surface}' as blank node`, CodeActionKind.RefactorInline, this.inline(model, statement, subject))
+		}
+		if (wants(CodeActionKind.RefactorRewrite)) {
+			const blocks = subjectBlocks(model, statement)
+			if (blocks.length > 1) {
+				action(`Merge the ${blocks.length} blocks of '${subject.surface}'`, CodeActionKind.RefactorRewrite, merge(model, blocks))
+			}
+			action("Split into one block per predicate", CodeActionKind.RefactorRewrite, split(model, statement, subject))
+		}
+		return actions
+	}
+
+	/**
+	 * Extraction of the property list at the position under the given name, for the command.
+	 * Null when there is no property list there or the name cannot be written as a term.
+	 */
+	extractAt(model: SyntaxModel, position: Position, name: string): WorkspaceEdit | null {
+		const node = propertyListAt(model, model.offsetAt(position))
+		return node && isTermName(model, name.trim()) ? this.extract(model, node, name.trim()) : null
+	}
+
+	/**
+	 * Replaces the `[ ... ]` with the name and writes its predicate-object list as a block of
+	 * its own right after the statement that contains it.
+	 */
+	private extract(model: SyntaxModel, node: BlankNodeNode, name: string): WorkspaceEdit | null {
+		const statement = model.statements[node.statement]
+		if (!statement) return null
+		const eol = lineEnding(model)
+		const start = model.offsetAt(node.range.start)
+		const end = model.offsetAt(node.range.end)
+		const indent = lineIndent(model, statement.start)
+		const list = reflow(model, model.text.slice(start + 1, end - 1), indent + indentUnit(model, statement))
+		const block = `${indent}${name} ${list}${closing(model, end - 1, indent)}.`
+		// A property list standing alone, `[ ex:p ex:o ] .`, turns into the block itself
+		if (node.role === "subject" && model.text.slice(end, statement.end).trim() === ".") {
+			return { changes: { [model.uri]: [TextEdit.replace(statement.range, block.trimStart())] } }
+		}
+		return {
+			changes: {
+				[model.uri]: [
+					TextEdit.replace(node.range, name),
+					TextEdit.insert(model.positionAt(statement.end), `${eol}${eol}${block}`),
+				],
+			},
+		}
+	}
+
+	/**
+	 * Moves the predicate-object list of the subject into its only reference, as a `[ ... ]`.
+	 * Applies when the workspace mentions the subject in this block and in one object position
+	 * of the same graph of this document, nowhere else.
+	 */
+	private inline(model: SyntaxModel, statement: Statement, subject: TermNode): WorkspaceEdit | null {
+		if (!statement.terminated || model.text[statement.end - 1] !== ".") return null
+		if (this.indexer.getIncoming(subject.iri).length !== 1) return null
+		const mentions = this.indexer.getSymbols(subject.iri)
+		if (mentions.length !== 2 || mentions.some((m) => m.uri !== model.uri)) return null
+		const reference = model.terms.find((t) => t.iri === subject.iri && t.role === "object" && !t.quoted)
+		if (!reference) return null
+		const referrer = model.statements[reference.statement]
+		if (!referrer || referrer === statement || referrer.graph !== statement.graph) return null
+
+		const list = model.text.slice(subject.end, statement.end - 1)
+		if (!list.trim()) return null
+		const indent = lineIndent(model, reference.start) + indentUnit(model, referrer)
+		const node = `[ ${reflow(model, list, indent)}${closing(model, statement.end - 1, lineIndent(model, reference.start))}]`
+		return {
+			changes: {
+				[model.uri]: [TextEdit.replace(reference.range, node), removal(model, statement)],
+			},
+		}
+	}
+
+	// `<subject>-<predicate>` next to the enclosing subject, numbered when the name is taken
+	private derivedName(model: SyntaxModel, node: BlankNodeNode): string {
+		const triple = model.triples.find((t) => t.object === node)
+		const local = triple?.predicate.iri.replace(/^.*[#/:]/, "") ?? ""
+		const stem = isLocalName(local) ? local : "node"
+		const owner = model.statements[node.statement]?.subject
+		const spell = (suffix: string): string => {
+			if (owner && !owner.surface.startsWith("<")) return `${owner.surface}-${suffix}`
+			if (owner) return `${owner.surface.slice(0, -1)}-${suffix}>`
+			return "" in model.prefixMap() ? `:${suffix}` : `<#${suffix}>`
+		}
+		const taken = (name: string) => {
+			const iri = this.indexer.resolve(model.uri, name)
+			return !!iri && (model.terms.some((t) => t.iri === iri) || this.indexer.getSymbols(iri).length > 0)
+		}
+		let name = spell(stem)
+		for (let n = 2; taken(name); n++) name = spell(`${stem}-${n}`)
+		return name
+	}
+}
+
+// Innermost non-empty `[ ... ]` property list around the offset
+function propertyListAt(model: SyntaxModel, offset: number): BlankNodeNode | null {
+	let found: BlankNodeNode | null = null
+	for (const node of model.blankNodes) {
+		if (node.label !== undefined || node.statement < 0) continue
+		const start = model.offsetAt(node.range.start)
+		const end = model.offsetAt(node.range.end)
+		if (offset < start || offset > end || !model.text.slice(start + 1, end - 1).trim()) continue
+		if (!found || start >= model.offsetAt(found.range.start)) found = node
+	}
+	return found
+}
+
+// Top-level statements of the same graph block whose subject is the statement's subject
+function subjectBlocks(model: SyntaxModel, statement: Statement): Statement[] {
+	const iri = statement.subject!.iri
+	return model.statements.filter(
+		(s) => s.subject?.iri === iri && !s.subject.quoted && s.subject.start === s.start && s.block === statement.block
+	)
+}
+
+// Appends the predicate-object lists of the later blocks to the first one
+function merge(model: SyntaxModel, blocks: Statement[]): WorkspaceEdit | null {
+	if (blocks.some((s) => !s.terminated || model.text[s.end - 1] !== ".")) return null
+	const [first, ...rest] = blocks
+	const eol = lineEnding(model)
+	const indent = lineIndent(model, first.start) + indentUnit(model, first)
+	const lists = rest.map((s) => reflow(model, model.text.slice(s.subject!.end, s.end - 1), indent))
+	if (lists.some((list) => !list)) return null
+	const end = model.text.slice(first.start, first.end - 1).trimEnd().length + first.start
+	const joined = lists.map((list, i) => `${closing(model, blocks[i].end - 1, indent)};${eol}${indent}${list}`).join("")
+	const last = closing(model, blocks[blocks.length - 1].end - 1, lineIndent(model, first.start))
+	const edits = [TextEdit.replace(model.rangeOf(end, first.end), `${joined}${last}.`), ...rest.map((s) => removal(model, s))]
+	return { changes: { [model.uri]: edits } }
+}
+
+// One block per predicate of the subject, in the order written
+function split(model: SyntaxModel, statement: Statement, subject: TermNode): WorkspaceEdit | null {
+	if (!statement.terminated || model.text[statement.end - 1] !== ".") return null
+	const lists: string[] = []
+	let depth = 0
+	let from = subject.end
+	for (const tok of model.tokens) {
+		if (tok.start < subject.end || tok.end > statement.end - 1 || tok.type !== "punct") continue
+		if (OPENING.has(tok.text)) depth++
+		else if (CLOSING.has(tok.text)) depth--
+		else if (tok.text === ";" && depth === 0) {
+			lists.push(model.text.slice(from, tok.start))
+			from = tok.end
+		}
+	}
+	lists.push(model.text.slice(from, statement.end - 1))
+	const indent = lineIndent(model, statement.start)
+	const unit = indentUnit(model, statement)
+	const blocks = lists.filter((list) => list.trim()).map((list) => `${subject.surface} ${reflow(model, list, indent + unit)} .`)
+	if (blocks.length < 2) return null
+	const eol = lineEnding(model)
+	return { changes: { [model.uri]: [TextEdit.replace(statement.range, blocks.join(`${eol}${indent}`))] } }
+}
+
+/**
+ * Deletes the statement with its lines, when nothing else is on them, and the blank line before
+ * it, or after it when there is none before. Taking the one before keeps a removed last block
+ * from leaving a blank line at the end, and consecutive blocks from claiming the same line.
+ */
+function removal(model: SyntaxModel, statement: Statement): TextEdit {
+	let start = model.offsetAt({ line: statement.range.start.line, character: 0 })
+	let end = model.offsetAt({ line: statement.range.end.line + 1, character: 0 })
+	const before = model.text.slice(start, statement.start)
+	const after = model.text.slice(statement.end, end)
+	if (before.trim() || after.trim()) return TextEdit.del(statement.range)
+	const previous = model.text.slice(0, start).match(/(?<=\n)[ \t]*\r?\n$/)
+	const next = model.text.slice(end).match(/^[ \t]*\r?\n/)
+	if (previous) start -= previous[0].length
+	else if (next) end += next[0].length
+	return TextEdit.del(model.rangeOf(start, end))
+}
+
+/**
+ * The text trimmed, with the lines after the first shifted so that the least indented one
+ * starts at `indent`.
+ */
+function reflow(model: SyntaxModel, text: string, indent: string): string {
+	const [first, ...rest] = text.trim().split(/\r?\n/)
+	const margin = Math.min(...rest.filter((line) => line.trim()).map((line) => line.match(/^[ \t]*/)![0].length))
+	return [first, ...rest.map((line) => (line.trim() ? indent + line.slice(margin).trimEnd() : ""))].join(lineEnding(model))
+}
+
+/**
+ * What goes between a moved list and the `]`, `;` or `.` that closed it at the offset: a space,
+ * or a line break when the list ends in a comment, which would swallow the rest of its line.
+ */
+function closing(model: SyntaxModel, offset: number, indent: string): string {
+	let last: Token | undefined
+	for (const token of model.tokens) {
+		if (token.end > offset) break
+		last = token
+	}
+	return last?.type === "comment" ? `${lineEnding(model)}${indent}` : " "
+}
+
+function lineEnding(model: SyntaxModel): string {
+	return model.text.includes("\r\n") ? "\r\n" : "\n"
+}
+
+function lineIndent(model: SyntaxModel, offset: number): string {
+	const { line } = model.positionAt(offset)
+	return model.text.slice(model.offsetAt({ line, character: 0 })).match(/^[ \t]*/)![0]
+}
+
+// How much further the statement's continuation lines are indented than its first line
+function indentUnit(model: SyntaxModel, statement: Statement): string {
+	const { start, end } = statement.range
+	const first = lineIndent(model, statement.start)
+	for (let line = start.line + 1; line <= end.line; line++) {
+		const indent = lineIndent(model, model.offsetAt({ line, character: 0 }))
+		if (indent.length > first.length && indent.startsWith(first)) return indent.slice(first.length)
+	}
+	return DEFAULT_INDENT
+}
+
+// A prefixed name with a declared prefix, or an IRI reference
+function isTermName(model: SyntaxModel, name: string): boolean {
+	if (/^<[^\s<>"{}|^`\\]*>$/.test(name)) return true
+	const colon = name.indexOf(":")
+	return colon >= 0 && name.slice(0, colon) in model.prefixMap() && isLocalName(name.slice(colon + 1))
+}
@@ -5,6 +5,7 @@ import {
   ProposedFeatures,
   TextDocuments,
   TextDocumentSyncKind,
+  FoldingRange,
   FoldingRangeParams,
   TextDocumentChangeEvent,
   Diagnostic,
@@ -12,14 +13,46 @@ import {
   DocumentOnTypeFormattingParams,
   Hover,
   TextEdit,
+  CodeActionKind,
+  DidChangeConfigurationNotification,
+  DidChangeConfigurationParams,
+  DidChangeWatchedFilesNotification,
+  DidChangeWatchedFilesParams,
+  ExecuteCommandParams,
+  FileChangeType,
+  InitializeParams,
+  Location,
 } from "vscode-languageserver/node"
 import { TextDocument } from "vscode-languageserver-textdocument"
 import { AbstractLanguageServer, errorMessageProvider } from "stardog-language-utils"
-import { TurtleParser, ModeString } from "millan"
+import { StardogSparqlParser, TrigParser, TurtleParser, W3SpecSparqlParser } from "millan"
+import { CatalogVocabulary, OntologyCatalog } from "./catalog"
+import { CodeActionEngine, DiagnosticCode } from "./codeActions"
+import { CodeLensCommand, CodeLensEngine } from "./codeLens"
 import { CompletionEngine } from "./completion"
+import { CONFIG_FILE, CONFIG_SECTION, Configuration, TurtleSettings, applySeverities } from "./config"
+import { FORMAT_NAMES, RDF_FILE_GLOB, isLineBased, isSparql } from "./formats"
+import { FormattingEngine } from "./formatter"
+import { HierarchyEngine } from "./hierarchy"
+import { HoverEngine } from "./hover"
+import { ImportEngine } from "./imports"
 import { Indexer } from "./indexer"
+import { InlayHintEngine } from "./inlayHints"
+import { LintContext, LintEngine, LintRule, applySuppressions, definitionKey } from "./lint"
 import { NavigationEngine } from "./navigation"
-import { currentWord } from "./util"
+import {
+  PrefixActionKind,
+  PrefixCommand,
+  PrefixEngine,
+  PrefixOperation,
+  isAbsoluteIri,
+} from "./prefixes"
+import { RefactoringCommand, RefactoringEngine } from "./refactorings"
+import { ShaclValidator, shaclResultsToDiagnostics } from "./shacl"
+import { SparqlEngine } from "./sparql"
+import { SymbolEngine } from "./symbols"
+import { RDF_TYPE, SyntaxModel, SyntaxModelCache } from "./syntax"
+import { namespaceOf, readFileSafe, resolveLabel, toFsPath } from "./util"
 // UPDATED: Import Zazuko for vocabulary validation
 import { vocabularies, prefixes as zazukoPrefixes } from '@zazuko/rdf-vocabularies'
 
@@ -35,80 +68,210 @@ const defaultPrefixes: Record<string, string> = {
 }
 
 class TurtleLanguageServer extends AbstractLanguageServer<TurtleParser> {
-  private mode: ModeString = "standard"
+  private config: Configuration
   private indexer: Indexer
   private completionEngine: CompletionEngine
   private navigation: NavigationEngine
+  private formatting: FormattingEngine
+  private codeActions: CodeActionEngine
+  private symbols: SymbolEngine
+  private sparql: SparqlEngine
+  private hovers: HoverEngine
+  private hierarchy: HierarchyEngine
+  private catalog: OntologyCatalog
+  private imports: ImportEngine
+  private inlayHints: InlayHintEngine
+  private codeLenses: CodeLensEngine
+  private prefixes: PrefixEngine
+  private refactorings: RefactoringEngine
+  private lint: LintEngine
+  private models = new SyntaxModelCache()
+  // Grammar diagnostics from the last millan parse, reused when only the lint/SHACL part changes
+  private syntaxDiagnostics: Map<string, Diagnostic[]> = new Map()
+  // Validator for the workspace shapes, rebuilt when a document's shapes change
+  private shapes: { generation: number; validator: ShaclValidator | null } | undefined
+  // `definitionKey` of each indexed open document, to tell when other documents need linting again
+  private definitionKeys: Map<string, string> = new Map()
+  // Client capabilities that decide how files are watched and settings are obtained
+  private canWatchFiles = false
+  private canPullConfiguration = false
+  private canRegisterConfiguration = false
+  private canRefreshInlayHints = false
+  private canShowDocument = false
+  private hierarchicalSymbols = false
+  private locale: string | undefined
+  private trigParser = new TrigParser({ errorMessageProvider })
+  private sparqlParser = new W3SpecSparqlParser({ config: { errorMessageProvider } })
+  private stardogSparqlParser = new StardogSparqlParser({ config: { errorMessageProvider } })
 
   // CACHE: Stores Set of valid terms for O(1) lookup (e.g. 'foaf' -> Set('Person', 'knows'...))
   private validTermsCache: Map<string, Set<string>> = new Map();
   private loadingVocabs: Set<string> = new Set();
+  // Vocabularies of the local ontology catalog, also cached in validTermsCache under their prefix
+  private catalogVocabularies: CatalogVocabulary[] = []
 
   constructor(private conn: ReturnType<typeof createConnection>, workspaceRoot?: string) {
     super(conn as any, new TurtleParser({ errorMessageProvider }))
+    this.config = new Configuration(workspaceRoot)
     this.indexer = new Indexer(workspaceRoot)
-    this.completionEngine = new CompletionEngine(this.indexer)
+    this.catalog = new OntologyCatalog(workspaceRoot)
+    this.imports = new ImportEngine(this.indexer, this.catalog, () => this.applyCatalog())
     this.navigation = new NavigationEngine(this.indexer, this.documents)
+    this.formatting = new FormattingEngine()
+    this.symbols = new SymbolEngine(this.indexer)
+    this.completionEngine = new CompletionEngine(this.indexer, this.symbols)
+    this.sparql = new SparqlEngine(this.indexer, this.completionEngine)
+    this.hovers = new HoverEngine(this.indexer, this.completionEngine, this.catalog)
+    this.inlayHints = new InlayHintEngine(this.indexer, this.completionEngine)
+    this.hierarchy = new HierarchyEngine(this.indexer, this.symbols)
+    this.codeLenses = new CodeLensEngine(this.indexer, this.symbols, this.hierarchy)
+    this.prefixes = new PrefixEngine(this.indexer, () => this.workspaceModels())
+    this.refactorings = new RefactoringEngine(this.indexer)
+    this.lint = new LintEngine(this.indexer, [
+      ...this.imports.lintRules(),
+      ...this.prefixes.lintRules(),
+      ...this.lintRules(),
+    ])
+    this.codeActions = new CodeActionEngine(this.completionEngine, {
+      knownNamespace: (prefix) =>
+        this.knownPrefixes()[prefix] ??
+        (zazukoPrefixes as any)[prefix] ??
+        this.catalogVocabularies.find((v) => v.prefix === prefix)?.namespace,
+      vocabularyTerms: (prefix) => this.validTermsCache.get(prefix),
+      diagnose: (doc) => this.basicDiagnostics(this.models.get(doc)),
+      renamePrefix: (doc, from, to) => this.prefixes.renamePrefix(this.models.get(doc), from, to),
+      removePrefix: (doc, position) => this.prefixes.removeDeclaration(this.models.get(doc), position),
+    })
   }
 
-  onInitialization() {
-    this.conn.onFoldingRanges((params: FoldingRangeParams) => this.handleFoldingRanges(params, true, true))
+  onInitialization(params: InitializeParams) {
+    const workspace = params.capabilities.workspace
+    this.canWatchFiles = !!workspace?.didChangeWatchedFiles?.dynamicRegistration
+    this.canPullConfiguration = !!workspace?.configuration
+    this.canRegisterConfiguration = !!workspace?.didChangeConfiguration?.dynamicRegistration
+    this.canRefreshInlayHints = !!workspace?.inlayHint?.refreshSupport
+    this.canShowDocument = !!params.capabilities.window?.showDocument?.support
+    this.hierarchicalSymbols = !!params.capabilities.textDocument?.documentSymbol?.hierarchicalDocumentSymbolSupport
+    this.locale = params.locale
+    this.conn.onFoldingRanges((params: FoldingRangeParams) => {
+      const doc = this.documents.get(params.textDocument.uri)
+      const ranges = this.handleFoldingRanges(params, true, true)
+      const folded = new Set(ranges.map((r) => r.startLine))
+      const blocks = doc ? this.blockFoldingRanges(this.models.get(doc)).filter((r) => !folded.has(r.startLine)) : []
+      return [...ranges, ...blocks]
+    })
     this.conn.onCompletion((params) => {
       const doc = this.documents.get(params.textDocument.uri)
       if (!doc) return []
-      const text = doc.getText()
-      const namespaces = this.collectNamespaceEntries(text)
-      const namespaceMap = this.buildPrefixMap(text, namespaces)
-      return this.completionEngine.build(params, doc, namespaces, namespaceMap)
+      const model = this.models.get(doc)
+      if (this.isQuery(doc)) {
+        return this.sparql.completions(params, doc, model, this.buildPrefixMap(model), this.knownPrefixes())
+      }
+      return this.completionEngine.build(params, doc, model, this.buildPrefixMap(model))
     })
-    this.conn.onHover(async (params) => {
+    this.conn.onHover((params) => {
       const doc = this.documents.get(params.textDocument.uri)
       if (!doc) return null
-      const word = currentWord(doc, params.position)
-      if (!word) return null
-
-      // Check for prefix:term pattern
-      const match = word.match(/^([A-Za-z0-9_\-]+):([A-Za-z0-9_\-]+)$/)
-      if (match) {
-        const prefix = match[1]
-        const suffix = match[2]
-        const documentation = await this.completionEngine.getTermDocumentation(prefix, suffix)
-        if (documentation) {
-          return { contents: documentation }
-        }
-      }
-      return null
+      return this.hovers.hover(this.models.get(doc), params.position, this.knownPrefixes(), this.preferredLanguages())
     })
 
     this.conn.onDocumentSymbol((params) => {
       const doc = this.documents.get(params.textDocument.uri)
+      if (!doc || this.isQuery(doc)) return []
+      return this.symbols.documentSymbols(this.models.get(doc), this.hierarchicalSymbols)
+    })
+    this.conn.onWorkspaceSymbol((p) => this.symbols.workspaceSymbols(p))
+    this.conn.onDefinition((p) => {
+      const doc = this.documents.get(p.textDocument.uri)
       if (!doc) return []
-      const text = doc.getText()
-      const namespaces = this.collectNamespaceEntries(text)
-      const subjects = this.indexerSubjects(text)
+      if (this.isQuery(doc)) return this.sparql.definition(this.models.get(doc), p.position)
+      // Terms from imported or catalog ontologies outside the workspace
+      const external = this.imports.definition(this.models.get(doc), p.position)
+      return external.length > 0 ? external : this.navigation.definition(p)
+    })
+    this.conn.onTypeDefinition((p) => {
+      const doc = this.documents.get(p.textDocument.uri)
+      const types = doc ? this.hierarchy.typeDefinitions(this.models.get(doc), p.position) : []
+      return types.length > 0 ? types : this.navigation.definition(p)
+    })
+    // Instances of a class; other terms keep jumping to their definition
+    this.conn.onImplementation((p) => {
+      const doc = this.documents.get(p.textDocument.uri)
+      const instances = doc ? this.hierarchy.implementations(this.models.get(doc), p.position) : []
+      return instances.length > 0 ? instances : this.navigation.definition(p)
+    })
+    this.conn.languages.typeHierarchy.onPrepare((p) => {
+      const doc = this.documents.get(p.textDocument.uri)
+      return doc ? this.hierarchy.prepare(this.models.get(doc), p.position) : null
+    })
+    this.conn.languages.typeHierarchy.onSupertypes((p) => this.hierarchy.supertypeItems(p.item))
+    this.conn.languages.typeHierarchy.onSubtypes((p) => this.hierarchy.subtypeItems(p.item))
+    this.conn.languages.inlayHint.on((p) => {
+      const doc = this.documents.get(p.textDocument.uri)
+      if (!doc) return []
+      return this.inlayHints.hints(this.models.get(doc), p.range, this.config.settings.inlayHints, this.preferredLanguages())
+    })
+    this.conn.onReferences((p) => this.navigation.references(p))
+    this.conn.onCodeLens((p) => this.codeLenses.lenses(p.textDocument.uri))
+    this.conn.onCodeLensResolve((lens) => this.codeLenses.resolve(lens))
+    this.conn.onPrepareRename((p) => {
+      const doc = this.documents.get(p.textDocument.uri)
+      if (!doc || this.isQuery(doc)) return null
+      return this.prefixes.prepareRename(this.models.get(doc), p.position) ?? this.navigation.prepareRename(p)
+    })
+    this.conn.onRenameRequest((p) => {
+      const doc = this.documents.get(p.textDocument.uri)
+      if (!doc || this.isQuery(doc)) return null
+      // Prefix labels and namespaces first; renames inside the local part go to the term
+      return this.prefixes.rename(this.models.get(doc), p.position, p.newName) ?? this.navigation.rename(p)
+    })
+    this.conn.onDocumentFormatting((params) => {
+      const doc = this.documents.get(params.textDocument.uri)
+      return doc && this.isTurtle(doc) ? this.formatting.format(doc, params.options) : []
+    })
+    this.conn.onDocumentRangeFormatting((params) => {
+      const doc = this.documents.get(params.textDocument.uri)
+      return doc && this.isTurtle(doc) ? this.formatting.formatRange(doc, params.range, params.options) : []
+    })
+    this.conn.onDocumentOnTypeFormatting((params: DocumentOnTypeFormattingParams): TextEdit[] => {
+      const doc = this.documents.get(params.textDocument.uri)
+      return doc && this.isTurtle(doc) ? this.formatting.formatOnType(doc, params.position, params.ch, params.options) : []
+    })
+    this.conn.onCodeAction((params) => {
+      const doc = this.documents.get(params.textDocument.uri)
+      if (!doc || this.isQuery(doc)) return []
+      const model = this.models.get(doc)
       return [
-        ...namespaces.map((ns: any) => ({
-          name: `${ns.prefix}: ${ns.iri}`,
-          kind: 3 as any,
-          location: { uri: doc.uri, range: ns.range },
-        })) as any,
-        ...subjects.map((subj: any) => ({
-          name: subj.label,
-          kind: 19 as any,
-          location: { uri: doc.uri, range: subj.range },
-        })) as any,
+        ...this.codeActions.provide(doc, params),
+        ...this.prefixes.actions(model, params.context.only),
+        ...this.refactorings.actions(model, params.range, params.context.only),
       ]
     })
-    this.conn.onDefinition((p) => this.navigation.definition(p))
-    this.conn.onTypeDefinition((p) => this.navigation.definition(p))
-    this.conn.onImplementation((p) => this.navigation.definition(p))
-    this.conn.onReferences((p) => this.navigation.references(p))
-    this.conn.onRenameRequest((p) => this.navigation.rename(p))
-    this.conn.onDidCloseTextDocument((params) => {
-      this.indexer.removeFromIndexes(params.textDocument.uri)
+    this.conn.onExecuteCommand((params) => this.executeCommand(params))
+    // Subscribed on the document manager rather than the connection so its own close handler,
+    // which drops the document from `this.documents`, is not replaced
+    this.documents.onDidClose(({ document }) => this.handleClose(document.uri))
+    this.conn.onDidChangeWatchedFiles((params) => this.handleWatchedFiles(params))
+    this.conn.onDidChangeConfiguration((params) => this.handleConfigurationChange(params))
+    this.conn.onInitialized(async () => {
+      if (this.canWatchFiles) {
+        this.conn.client.register(DidChangeWatchedFilesNotification.type, {
+          watchers: [{ globPattern: RDF_FILE_GLOB }, { globPattern: `**/${CONFIG_FILE}` }],
+        })
+      }
+      if (this.canRegisterConfiguration) {
+        this.conn.client.register(DidChangeConfigurationNotification.type, { section: CONFIG_SECTION })
+      }
+      const error = this.config.loadProjectFile()
+      if (error) this.conn.window.showWarningMessage(error)
+      if (this.canPullConfiguration) await this.pullClientSettings()
+      this.applySettings(this.config.settings, true)
+      this.indexWorkspace()
     })
 
-    this.indexer.indexWorkspace()
+    // Initialization options take the same shape as the client settings; clients that support
+    // `workspace/configuration` replace them once initialized
+    this.config.setClientSettings(params.initializationOptions)
 
     return {
       capabilities: {
@@ -117,50 +280,222 @@ class TurtleLanguageServer extends AbstractLanguageServer<TurtleParser> {
         hoverProvider: true,
         completionProvider: { triggerCharacters: [":", "@"] },
         documentSymbolProvider: true,
+        workspaceSymbolProvider: true,
         definitionProvider: true,
         referencesProvider: true,
-        renameProvider: true,
+        renameProvider: { prepareProvider: true },
         typeDefinitionProvider: true,
         implementationProvider: true,
+        typeHierarchyProvider: true,
+        inlayHintProvider: true,
+        codeLensProvider: { resolveProvider: true },
+        documentFormattingProvider: true,
+        documentRangeFormattingProvider: true,
+        documentOnTypeFormattingProvider: { firstTriggerCharacter: ".", moreTriggerCharacter: [";", ","] },
+        codeActionProvider: {
+          codeActionKinds: [
+            CodeActionKind.QuickFix,
+            CodeActionKind.SourceFixAll,
+            ...Object.values(PrefixActionKind),
+            CodeActionKind.RefactorExtract,
+            CodeActionKind.RefactorInline,
+            CodeActionKind.RefactorRewrite,
+          ],
+        },
+        executeCommandProvider: {
+          commands: [
+            ...Object.values(PrefixCommand),
+            ...Object.values(RefactoringCommand),
+            ...Object.values(CodeLensCommand),
+          ],
+        },
       },
     }
   }
 
   onContentChange(
     { document }: TextDocumentChangeEvent<TextDocument>,
-    _parseResults: ReturnType<AbstractLanguageServer<TurtleParser>["parseDocument"]>
+    parseResults: ReturnType<AbstractLanguageServer<TurtleParser>["parseDocument"]>
   ) {
-    const uri = document.uri
-    const content = document.getText()
+    const model = this.models.get(document)
+    if (this.isQuery(document)) {
+      this.syntaxDiagnostics.set(document.uri, [
+        ...this.getLexDiagnostics(document, parseResults.tokens || []),
+        ...this.getParseDiagnostics(document, (parseResults.errors || []) as any[]),
+      ])
+      this.publishDiagnostics(document)
+      return
+    }
+    this.syntaxDiagnostics.set(document.uri, this.hasMillanGrammar(model) ? [
+      ...this.getLexDiagnostics(document, parseResults.tokens || []),
+      ...this.getParseDiagnostics(document, (parseResults.errors || []) as any[]),
+    ] : this.grammarDiagnostics(model))
+
+    const hadShapes = this.indexer.hasShapes(document.uri)
+    const previousPrefixes = JSON.stringify(this.indexer.getPrefixMap(document.uri))
+    const previousDefinitions = this.definitionKeys.get(document.uri)
+    this.indexer.reindexDocument(document.uri, model.text, model)
+    this.definitionKeys.set(document.uri, definitionKey(model))
+    this.publishDiagnostics(document)
+
+    // Shapes changed: every open data document has to be revalidated against them. So do they
+    // when the prefixes changed, which other documents are checked for consistency with, and
+    // when the definitions the lint rules look up across the workspace changed
+    if (
+      hadShapes ||
+      this.indexer.hasShapes(document.uri) ||
+      previousPrefixes !== JSON.stringify(this.indexer.getPrefixMap(document.uri)) ||
+      (previousDefinitions !== undefined && previousDefinitions !== this.definitionKeys.get(document.uri))
+    ) {
+      this.republishDiagnostics(document.uri)
+    }
+  }
 
-    let diagnostics: Diagnostic[] = []
+  /**
+   * Crawls the workspace in the background, reporting progress to clients that support
+   * `window/workDoneProgress`. Open documents are revalidated once shapes and definitions from
+   * the whole workspace are known.
+   */
+  private async indexWorkspace(reindex = false) {
+    const progress = await this.conn.window.createWorkDoneProgress()
+    progress.begin("Indexing Turtle files", 0, undefined, false)
     try {
-      const lintDiagnostics = this.basicDiagnostics(document, content)
-
-      let lexDiagnostics: Diagnostic[] = []
-      let parseDiagnostics: Diagnostic[] = []
-      try {
-        const parser = new TurtleParser({ errorMessageProvider })
-        const parsed = parser.parse(content, this.mode)
-        const tokens = parser.input || []
-        lexDiagnostics = this.getLexDiagnostics(document, tokens)
-        parseDiagnostics = this.getParseDiagnostics(document, parsed.errors || [])
-      } catch (err) {
-        parseDiagnostics = [
-          {
-            severity: DiagnosticSeverity.Error,
-            range: {
-              start: { line: 0, character: 0 },
-              end: { line: 0, character: 1 },
-            },
-            message: `Parse error: ${err instanceof Error ? err.message : typeof err === "string" ? err : "unknown"
-              }`,
-            source: "turtle-node-lsp",
-          },
-        ]
+      const onProgress = (done: number, total: number) => {
+        progress.report(total === 0 ? 100 : Math.floor((done / total) * 100), `${done}/${total} files`)
       }
+      await (reindex ? this.indexer.reindexWorkspace(onProgress) : this.indexer.indexWorkspace(onProgress))
+    } catch (err) {
+      console.error("Workspace indexing failed", err)
+    } finally {
+      progress.done()
+    }
+    this.republishDiagnostics()
+  }
 
-      diagnostics = [...lexDiagnostics, ...parseDiagnostics, ...lintDiagnostics]
+  private async pullClientSettings() {
+    try {
+      this.config.setClientSettings(await this.conn.workspace.getConfiguration(CONFIG_SECTION))
+    } catch (err) {
+      console.error("Failed to fetch client settings", err)
+    }
+  }
+
+  private async handleConfigurationChange(params: DidChangeConfigurationParams) {
+    const previous = this.config.settings
+    if (this.canPullConfiguration) await this.pullClientSettings()
+    else this.config.setClientSettings(params.settings?.[CONFIG_SECTION])
+    this.applySettings(previous)
+  }
+
+  private reloadProjectFile() {
+    const previous = this.config.settings
+    const error = this.config.loadProjectFile()
+    if (error) this.conn.window.showWarningMessage(error)
+    this.applySettings(previous)
+  }
+
+  /**
+   * Brings the server in line with new settings: the index is rebuilt when its options changed,
+   * newly listed vocabularies are loaded, and every open document is parsed and validated again
+   * since parser mode, prefixes and severities all affect diagnostics.
+   */
+  private applySettings(previous: TurtleSettings, initial = false) {
+    const settings = this.config.settings
+    if (initial || JSON.stringify(previous.indexing) !== JSON.stringify(settings.indexing)) {
+      this.indexer.configure(settings.indexing)
+      if (!initial) this.indexWorkspace(true)
+    }
+    this.completionEngine.preload(settings.vocabularies)
+    for (const prefix of settings.vocabularies) this.ensureVocabLoaded(prefix)
+    if (initial || JSON.stringify(previous.ontologies) !== JSON.stringify(settings.ontologies)) {
+      this.loadOntologies(settings.ontologies)
+    }
+    if (!initial && this.canRefreshInlayHints && JSON.stringify(previous.inlayHints) !== JSON.stringify(settings.inlayHints)) {
+      this.conn.languages.inlayHint.refresh()
+    }
+    if (initial) return
+    for (const document of this.documents.all()) {
+      this.onContentChange({ document }, this.parseDocument(document))
+    }
+  }
+
+  // Reloads the local ontology catalog, then retries imports that failed to load
+  private async loadOntologies(entries: string[]) {
+    const problems = await this.catalog.load(entries)
+    if (problems.length > 0) this.conn.window.showWarningMessage(problems.join("\n"))
+    this.imports.reset()
+    this.applyCatalog()
+  }
+
+  /**
+   * Swaps the catalog's vocabularies into the completion and validation caches, and validates
+   * open documents again now that more terms and imports resolve.
+   */
+  private applyCatalog() {
+    for (const { prefix } of this.catalogVocabularies) this.validTermsCache.delete(prefix)
+    this.catalogVocabularies = this.catalog.vocabularies()
+    for (const { prefix, terms } of this.catalogVocabularies) this.validTermsCache.set(prefix, terms)
+    this.completionEngine.registerVocabularies(this.catalogVocabularies)
+    if (this.canRefreshInlayHints) this.conn.languages.inlayHint.refresh()
+    for (const document of this.documents.all()) {
+      this.onContentChange({ document }, this.parseDocument(document))
+    }
+  }
+
+  /**
+   * A closed document goes back to its saved content on disk; unsaved edits and untitled
+   * buffers disappear from the index.
+   */
+  private handleClose(uri: string) {
+    this.models.delete(uri)
+    this.syntaxDiagnostics.delete(uri)
+    this.definitionKeys.delete(uri)
+    if (!this.indexer.reindexFromDisk(uri)) this.indexer.removeFromIndexes(uri)
+    this.conn.sendDiagnostics({ uri, diagnostics: [] })
+    // The file on disk may hold other shapes and definitions than the closed buffer did
+    this.republishDiagnostics()
+  }
+
+  /**
+   * Keeps the index in sync with files changed outside the editor. Open documents are skipped:
+   * their buffer, not the file on disk, is what the index reflects until they are closed.
+   */
+  private handleWatchedFiles({ changes }: DidChangeWatchedFilesParams) {
+    let indexChanged = false
+    for (const change of changes) {
+      if (change.uri.startsWith("file://") && toFsPath(change.uri) === this.config.projectFile) {
+        this.reloadProjectFile()
+        continue
+      }
+      if (this.documents.get(change.uri)) continue
+      if (change.type === FileChangeType.Deleted) {
+        this.indexer.removeTree(change.uri)
+      } else if (!this.indexer.reindexFromDisk(change.uri)) {
+        this.indexer.removeFromIndexes(change.uri)
+      }
+      indexChanged = true
+    }
+    // Open documents are checked against the shapes, prefix bindings and definitions of the rest
+    // of the workspace, which the changed files may have brought or taken away
+    if (indexChanged) this.republishDiagnostics()
+  }
+
+  private republishDiagnostics(except?: string) {
+    for (const document of this.documents.all()) {
+      if (document.uri !== except) this.publishDiagnostics(document)
+    }
+  }
+
+  private publishDiagnostics(document: TextDocument) {
+    const uri = document.uri
+
+    let diagnostics: Diagnostic[] = []
+    try {
+      const model = this.models.get(document)
+      // Queries only get syntax diagnostics; the lint and SHACL checks are about data
+      const lintDiagnostics = this.isQuery(document) ? [] : this.basicDiagnostics(model)
+      const shapeDiagnostics = this.isQuery(document) ? [] : applySuppressions(model, this.shaclDiagnostics(model))
+      diagnostics = [...(this.syntaxDiagnostics.get(uri) || []), ...lintDiagnostics, ...shapeDiagnostics]
     } catch (err) {
       diagnostics = [
         {
@@ -177,13 +512,27 @@ class TurtleLanguageServer extends AbstractLanguageServer<TurtleParser> {
     }
 
     this.conn.sendDiagnostics({ uri, diagnostics })
-    this.indexer.reindexDocument(uri, content)
   }
 
+  /**
+   * Parses queries with millan's SPARQL grammar (Stardog's extensions in "stardog" parser mode)
+   * and RDF with the millan grammar of the document's format. Formats millan has no grammar for,
+   * and documents using RDF-star syntax it cannot read, are checked with n3 in
+   * `grammarDiagnostics` instead.
+   */
   parseDocument(document: TextDocument) {
-    const content = document.getText()
-    const { cst, errors, ...otherParseData } = this.parser.parse(content, this.mode)
-    const tokens = this.parser.input
+    if (this.isQuery(document)) {
+      const parser = this.config.settings.parserMode === "stardog" ? this.stardogSparqlParser : this.sparqlParser
+      const { cst, errors, ...otherParseData } = parser.parse(document.getText())
+      return { cst, tokens: parser.input, errors, otherParseData: otherParseData as any }
+    }
+    const model = this.models.get(document)
+    if (!this.hasMillanGrammar(model)) {
+      return { cst: undefined as any, tokens: [], errors: [], otherParseData: {} as any }
+    }
+    const parser = model.format === "trig" ? this.trigParser : this.parser
+    const { cst, errors, ...otherParseData } = parser.parse(document.getText(), this.config.settings.parserMode)
+    const tokens = parser.input
     return {
       cst,
       tokens,
@@ -192,26 +541,164 @@ class TurtleLanguageServer extends AbstractLanguageServer<TurtleParser> {
     }
   }
 
-  private collectNamespaceEntries(text: string) {
-    // Reuse indexer utility to parse prefixes quickly
-    // @ts-ignore - Indexer private method access workaround
-    return this.indexer["collectNamespaceEntries"](text)
+  private hasMillanGrammar(model: SyntaxModel) {
+    return (model.format === "turtle" || model.format === "trig") && !model.usesRdfStar
+  }
+
+  /**
+   * Runs a prefix command on the document given as its last argument, or on every indexed
+   * document, and the refactorings that take their input from the client. Closed documents
+   * are read from disk. Code lenses answer with their locations.
+   */
+  private async executeCommand({ command, arguments: args = [] }: ExecuteCommandParams) {
+    if (command === CodeLensCommand.ShowReferences) {
+      const locations: Location[] = Array.isArray(args[2]) ? args[2] : []
+      if (locations.length === 1 && this.canShowDocument) {
+        await this.conn.window.showDocument({ uri: locations[0].uri, selection: locations[0].range, takeFocus: true })
+      }
+      return locations
+    }
+    if (command === RefactoringCommand.ExtractBlankNode) {
+      const [uri, position, name] = args
+      const model = typeof uri === "string" ? this.documentModel(uri) : null
+      const edit = model && position && typeof name === "string" ? this.refactorings.extractAt(model, position, name) : null
+      if (!edit) {
+        this.conn.window.showErrorMessage(`${command} expects a blank node property list and a prefixed name or <IRI> for it`)
+        return
+      }
+      await this.conn.workspace.applyEdit({ label: command, edit })
+      return
+    }
+    if (command === PrefixCommand.ChangeNamespace) {
+      const [from, to] = args
+      if (typeof from !== "string" || typeof to !== "string" || !isAbsoluteIri(from) || !isAbsoluteIri(to)) {
+        this.conn.window.showErrorMessage(`${command} expects the old and the new namespace IRI`)
+        return
+      }
+      const edit = this.prefixes.changeNamespace(from, to)
+      if (Object.keys(edit.changes ?? {}).length > 0) await this.conn.workspace.applyEdit({ label: command, edit })
+      return
+    }
+
+    let operation: PrefixOperation
+    let uri: string | undefined
+    switch (command) {
+      case PrefixCommand.Organize:
+        operation = "organize"
+        uri = args[0]
+        break
+      case PrefixCommand.RemoveUnused:
+        operation = "removeUnused"
+        uri = args[0]
+        break
+      case PrefixCommand.UseStyle:
+        if (args[0] !== "turtle" && args[0] !== "sparql") {
+          this.conn.window.showErrorMessage(`${command} expects "turtle" or "sparql", got ${JSON.stringify(args[0])}`)
+          return
+        }
+        operation = args[0] === "sparql" ? "sparqlStyle" : "turtleStyle"
+        uri = args[1]
+        break
+      case PrefixCommand.ContractIris:
+        operation = "contractIris"
+        uri = args[0]
+        break
+      default:
+        return
+    }
+
+    const changes: Record<string, TextEdit[]> = {}
+    const models = uri ? [this.documentModel(uri)] : this.workspaceModels()
+    for (const model of models) {
+      if (!model) continue
+      const edits = this.prefixes.edits(model, operation)
+      if (edits.length > 0) changes[model.uri] = edits
+    }
+    if (Object.keys(changes).length === 0) return
+    await this.conn.workspace.applyEdit({ label: command, edit: { changes } })
+  }
+
+  // Indexed and open RDF documents
+  private workspaceModels(): SyntaxModel[] {
+    const uris = new Set([...this.indexer.getDocumentUris(), ...this.documents.keys()])
+    return [...uris].map((uri) => this.documentModel(uri)).filter((model): model is SyntaxModel => !!model)
+  }
+
+  // Model of an open RDF document, else of the saved file
+  private documentModel(uri: string): SyntaxModel | null {
+    const doc = this.documents.get(uri)
+    if (doc) return this.isQuery(doc) ? null : this.models.get(doc)
+    const text = uri.startsWith("file://") ? readFileSafe(toFsPath(uri)) : null
+    return text === null ? null : new SyntaxModel(uri, text)
+  }
+
+  private isTurtle(doc: TextDocument) {
+    return !this.isQuery(doc) && this.models.get(doc).format === "turtle"
+  }
+
+  private isQuery(doc: TextDocument) {
+    return isSparql(doc.uri, doc.languageId)
   }
 
-  private buildPrefixMap(text: string, prefixes: any[]) {
-    // @ts-ignore - Indexer private method access workaround
-    const declared = this.indexer["collectNamespaceMap"](text, prefixes)
-    const map: Record<string, string> = { ...defaultPrefixes }
-    for (const [pref, iri] of Object.entries(declared)) {
-      map[normalizePrefix(pref)] = iri as string
+  // n3 stops at the first error, so at most one diagnostic is reported, spanning its line
+  private grammarDiagnostics(model: SyntaxModel): Diagnostic[] {
+    const error = model.parseError
+    if (!error) return []
+    const lineEnd = model.offsetAt({ line: error.line + 1, character: 0 })
+    const lineText = model.text.slice(model.offsetAt({ line: error.line, character: 0 }), lineEnd).replace(/\r?\n$/, "")
+    return [{
+      severity: DiagnosticSeverity.Error,
+      range: { start: { line: error.line, character: 0 }, end: { line: error.line, character: lineText.length } },
+      message: `${FORMAT_NAMES[model.format]} syntax error: ${error.message}`,
+      source: "turtle-node-lsp",
+    }]
+  }
+
+  // TriG graph blocks and RDF-star quoted triples or annotations spanning several lines
+  private blockFoldingRanges(model: SyntaxModel): FoldingRange[] {
+    return [...model.graphs, ...model.quotedTriples]
+      .filter((block) => block.range.end.line > block.range.start.line)
+      .map((block) => ({ startLine: block.range.start.line, endLine: block.range.end.line - 1 }))
+  }
+
+  // Configured languages, else the editor's locale; untagged literals are the fallback either way
+  private preferredLanguages(): string[] {
+    const { languages } = this.config.settings
+    return languages.length > 0 ? languages : [this.locale ?? "en"]
+  }
+
+  // Built-in prefixes plus the ones added in the settings
+  private knownPrefixes(): Record<string, string> {
+    return { ...defaultPrefixes, ...this.config.settings.prefixes }
+  }
+
+  private buildPrefixMap(model: SyntaxModel) {
+    const map: Record<string, string> = this.knownPrefixes()
+    for (const [pref, iri] of Object.entries(model.prefixMap())) {
+      map[normalizePrefix(pref)] = iri
     }
     return map
   }
 
-  private indexerSubjects(text: string) {
-    const namespaces = this.collectNamespaceEntries(text)
-    // @ts-ignore - Indexer private method access workaround
-    return this.indexer["collectSubjectEntries"](text, this.buildPrefixMap(text, namespaces))
+  /**
+   * Validates the document's triples against every SHACL shape indexed in the workspace.
+   * Documents that do not parse are skipped; syntax errors are reported elsewhere. Class
+   * constraints also accept the types other workspace documents give a value.
+   */
+  private shaclDiagnostics(model: SyntaxModel): Diagnostic[] {
+    const generation = this.indexer.getShapesGeneration()
+    if (this.shapes?.generation !== generation) {
+      const shapeQuads = this.indexer.getShapeQuads()
+      const typesOf = (iri: string) => this.indexer.getObjects(iri, RDF_TYPE).map((t) => t.object)
+      this.shapes = { generation, validator: shapeQuads.length > 0 ? new ShaclValidator(shapeQuads, typesOf) : null }
+    }
+    const validator = this.shapes.validator
+    if (!validator) return []
+    const quads = model.quads
+    if (!quads || quads.length === 0) return []
+    const results = validator.validate(quads)
+    if (results.length === 0) return []
+    return shaclResultsToDiagnostics(model, results)
   }
 
   /**
@@ -246,161 +733,145 @@ class TurtleLanguageServer extends AbstractLanguageServer<TurtleParser> {
     }
   }
 
-  private basicDiagnostics(document: TextDocument, text: string) {
-    const diagnostics: Diagnostic[] = []
-    const namespaceEntries = this.collectNamespaceEntries(text)
-    const prefixMap = this.buildPrefixMap(text, namespaceEntries)
-    
-    // Build a set of explicitly declared prefixes for strict validation
-    const declaredPrefixes = new Set<string>()
-    for (const entry of namespaceEntries) {
-      declaredPrefixes.add(normalizePrefix(entry.prefix))
-    }
-
-    const lines = text.split(/\r?\n/)
-    const prefixUsage: Record<string, number> = {}
-    const seenPrefixDecl: Record<string, number> = {}
-    let bracketDepth = 0
-    let parenDepth = 0
-
-    lines.forEach((line, idx) => {
-      const trimmed = line.trim()
-      if (!trimmed || trimmed.startsWith("@") || trimmed.startsWith("#")) return
-
-      // Sanitize strings to avoid checking terms inside quotes and comments
-      // Supports "...", '...', """...""", '''...'''
-      // Also remove IRIs <...> and comments #... to avoid false positives
-      const sanitized = trimmed
-        .replace(/("""(?:[^"\\]|\\.)*?"""|'''(?:[^'\\]|\\.)*?'''|"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*')/g, "") // Strings
-        .replace(/<[^>]*>/g, "") // IRIs
-        .replace(/#.*$/, "") // Comments
-
-      const depthBefore = bracketDepth + parenDepth
-
-      // Terminator check
-      // Use sanitized string to ignore brackets/parens inside strings and comments
-      const openBrackets = countChars(sanitized, "[")
-      const closeBrackets = countChars(sanitized, "]")
-      const openParens = countChars(sanitized, "(")
-      const closeParens = countChars(sanitized, ")")
-      const depthAfter = Math.max(0, depthBefore + openBrackets - closeBrackets + openParens - closeParens)
-
-      // Warn only if we are at top level, line has content (predicate/object implied by whitespace), and no terminator
-      // We check /\s/ to skip single-token lines (likely just a Subject, e.g. "core:Metadata")
-      if (depthBefore === 0 && depthAfter === 0 && !/[.;,\]\)]\s*$/.test(sanitized) && /\s/.test(sanitized)) {
-        diagnostics.push({
-          severity: DiagnosticSeverity.Warning,
-          range: {
-            start: { line: idx, character: 0 },
-            end: { line: idx, character: line.length },
-          },
-          message: "Turtle statements typically end with '.', ';', or ','",
-          source: "turtle-node-lsp",
-        })
-      }
-
-      // Regex to find 'prefix:suffix' patterns
-      // Captures: prefix (group 1), suffix (group 2)
-      // Suffix can be empty (e.g. ":" or "ex:")
-      const uses = [...sanitized.matchAll(/([A-Za-z0-9_\-]*):([A-Za-z0-9_\-]*)/g)]
-
-      for (const match of uses) {
-        const pref = match[1]
-        const suffix = match[2]
-        const normalized = normalizePrefix(pref)
-        const start = line.indexOf(match[0])
-        const range = {
-          start: { line: idx, character: start },
-          end: { line: idx, character: start + match[0].length },
-        }
-
-        prefixUsage[normalized] = (prefixUsage[normalized] || 0) + 1
+  // Rules whose checks need the server's vocabularies and settings
+  private lintRules(): LintRule[] {
+    return [
+      {
+        id: DiagnosticCode.UnknownTerm,
+        severity: DiagnosticSeverity.Warning,
+        check: (context) => this.checkTerms(context),
+      },
+      {
+        id: DiagnosticCode.UnsupportedSyntax,
+        severity: DiagnosticSeverity.Error,
+        check: (context) => {
+          if (!context.settings.rdfStar) this.checkRdfStar(context)
+          if (isLineBased(context.model.format)) this.checkLineFormat(context)
+        },
+      },
+    ]
+  }
 
-        // 1. Check if Prefix is Declared (Strict check)
-        if (!declaredPrefixes.has(normalized)) {
-          diagnostics.push({
-            severity: DiagnosticSeverity.Warning,
-            range,
-            message: `Prefix '${displayPrefix(pref)}' is not declared`,
-            source: "turtle-node-lsp",
-          })
+  /**
+   * Prefixed names whose local part is not defined by the vocabulary their namespace belongs
+   * to: the import closure, a catalog vocabulary or a bundled one.
+   */
+  private checkTerms({ model, vocabulary, report }: LintContext) {
+    // Vocabulary checks do not apply where prefixed names are not allowed at all
+    if (isLineBased(model.format)) return
+    const prefixMap = this.buildPrefixMap(model)
+    const ownSubjects = new Set(model.subjects.map((s) => s.iri))
+
+    for (const term of model.terms) {
+      if (term.surface.startsWith("<")) continue
+      const colon = term.surface.indexOf(":")
+      const pref = term.surface.slice(0, colon)
+      const suffix = term.surface.slice(colon + 1)
+      const normalized = normalizePrefix(pref)
+
+      // Prefix keys are used as the cache key since that is what Zazuko bundles by; catalog
+      // vocabularies are found by namespace under the prefix the catalog gave them
+      const catalogPrefix = this.catalogVocabularies.find((v) => v.namespace === prefixMap[normalized])?.prefix
+      const vocabularyKey = catalogPrefix ?? pref
+      const data = { prefix: pref, term: suffix, vocabulary: vocabularyKey }
+      if (vocabulary.importedNamespaces.has(prefixMap[normalized])) {
+        if (suffix && !vocabulary.importedTerms.has(term.iri) && !ownSubjects.has(term.iri)) {
+          report(term.range, `Term '${suffix}' is not defined in the imported ontologies.`, data)
         }
-
-        // 2. Check if Suffix is Valid (if the prefix resolves to a namespace we know)
-        if (prefixMap[normalized]) {
-          // We verify if this prefix maps to a standard URI that Zazuko knows
-          const iri = prefixMap[normalized];
-          // Simple check: does the prefix key exist in Zazuko? 
-          // (Ideally we check IRI, but prefix keys are safer for the cache key)
-          if ((zazukoPrefixes as any)[pref]) {
-            if (this.validTermsCache.has(pref)) {
-              const validTerms = this.validTermsCache.get(pref)!;
-              if (!validTerms.has(suffix)) {
-                // Edge case: Sometimes ontologies use terms not explicitly defined in the standard bundle.
-                // We use 'Warning' instead of 'Error' to be safe.
-                diagnostics.push({
-                  severity: DiagnosticSeverity.Warning,
-                  range,
-                  message: `Term '${suffix}' is not defined in the '${pref}' vocabulary.`,
-                  source: "turtle-node-lsp",
-                })
-              }
-            } else {
-              // Fire and forget load for next time
-              this.ensureVocabLoaded(pref);
-            }
-          }
+      } else if (prefixMap[normalized] && (catalogPrefix || (zazukoPrefixes as any)[pref])) {
+        const validTerms = this.validTermsCache.get(vocabularyKey)
+        // Edge case: Sometimes ontologies use terms not explicitly defined in the standard bundle,
+        // hence a warning rather than an error
+        if (validTerms && !validTerms.has(suffix)) {
+          report(term.range, `Term '${suffix}' is not defined in the '${pref}' vocabulary.`, data)
+        } else if (!validTerms) {
+          // Fire and forget load for next time
+          this.ensureVocabLoaded(pref)
         }
       }
+    }
+  }
 
-      // Update nesting depth for [] and ()
-      bracketDepth = Math.max(0, bracketDepth + openBrackets - closeBrackets)
-      parenDepth = Math.max(0, parenDepth + openParens - closeParens)
-    })
+  /**
+   * N-Triples and N-Quads only allow absolute IRIs, quoted literals and one triple per line.
+   * Every Turtle shorthand is reported, with the expanded form as replacement when there is one.
+   */
+  private checkLineFormat({ model, report }: LintContext) {
+    const formatName = FORMAT_NAMES[model.format]
+    const unsupported = (range: Diagnostic["range"], message: string, replacement?: string) => {
+      report(range, `${message} in ${formatName}`, replacement ? { replacement } : undefined)
+    }
 
-    // Duplicate prefix declarations
-    for (const entry of namespaceEntries) {
-      const normalized = normalizePrefix(entry.prefix)
-      seenPrefixDecl[normalized] = (seenPrefixDecl[normalized] || 0) + 1
-      if (seenPrefixDecl[normalized] > 1) {
-        diagnostics.push({
-          severity: DiagnosticSeverity.Warning,
-          range: entry.range,
-          message: `Prefix '${displayPrefix(entry.prefix)}' is declared multiple times`,
-          source: "turtle-node-lsp",
-        })
+    for (const tok of model.tokens) {
+      const range = model.rangeOf(tok.start, tok.end)
+      if (tok.type === "directive") unsupported(range, `'${tok.text}' directives are not allowed`)
+      else if (tok.type === "keyword" && tok.text === "a") unsupported(range, "'a' is not allowed", `<${RDF_TYPE}>`)
+      else if (tok.type === "punct" && ";,[]()".includes(tok.text)) {
+        unsupported(range, `'${tok.text}' abbreviations are not allowed`)
       }
     }
-
-    // Unused prefixes (informational)
-    for (const entry of namespaceEntries) {
-      const normalized = normalizePrefix(entry.prefix)
-      if ((prefixUsage[normalized] || 0) === 0) {
-        diagnostics.push({
-          severity: DiagnosticSeverity.Information,
-          range: entry.range,
-          message: `Prefix '${displayPrefix(entry.prefix)}' is never used`,
-          source: "turtle-node-lsp",
-        })
+    for (const term of model.terms) {
+      if (!term.surface.startsWith("<")) {
+        const iri = resolveLabel(term.surface, { ...this.knownPrefixes(), ...model.prefixMap() }, model.base)
+        unsupported(term.range, "Prefixed names are not allowed", iri ? `<${iri}>` : undefined)
+      } else if (!/^<[A-Za-z][\w+.\-]*:/.test(term.surface)) {
+        unsupported(term.range, "Relative IRIs are not allowed")
       }
     }
+    for (const literal of model.literals) {
+      if (literal.text.startsWith('"') || !literal.datatype) continue
+      unsupported(literal.range, "Unquoted literals are not allowed", `"${literal.value}"^^<${literal.datatype}>`)
+    }
+  }
 
-    return diagnostics
+  // Reported when the workspace turns RDF-star off; the grammar check itself accepts it
+  private checkRdfStar({ model, report }: LintContext) {
+    let outerEnd = -1
+    for (const node of model.quotedTriples) {
+      // Nested quoted triples are covered by the outermost one
+      if (model.offsetAt(node.range.start) < outerEnd) continue
+      outerEnd = model.offsetAt(node.range.end)
+      report(
+        node.range,
+        node.annotation
+          ? "RDF-star annotations are disabled in this workspace (turtle.rdfStar)"
+          : "RDF-star quoted triples are disabled in this workspace (turtle.rdfStar)"
+      )
+    }
   }
-}
 
-function countChars(text: string, char: string) {
-  return (text.match(new RegExp(`\\${char}`, "g")) || []).length
+  private basicDiagnostics(model: SyntaxModel) {
+    // Namespaces described by imported ontologies are checked against the import closure;
+    // bundled vocabularies keep their own check even when an import annotates their terms
+    const importedTerms = this.imports.definedTerms(model)
+    const bundledPrefixes = new Map(
+      Object.entries(zazukoPrefixes as Record<string, string>).map(([prefix, namespace]) => [namespace, prefix])
+    )
+    const importedNamespaces = new Set([...importedTerms].map(namespaceOf).filter((ns) => !bundledPrefixes.has(ns)))
+
+    const defines = (iri: string): boolean | undefined => {
+      if (importedTerms.has(iri)) return true
+      const namespace = namespaceOf(iri)
+      const catalog = this.catalogVocabularies.find((v) => v.namespace === namespace)
+      const vocabulary = catalog?.prefix ?? bundledPrefixes.get(namespace)
+      if (vocabulary === undefined) return importedNamespaces.has(namespace) ? false : undefined
+      const terms = this.validTermsCache.get(vocabulary)
+      if (!terms) {
+        this.ensureVocabLoaded(vocabulary)
+        return undefined
+      }
+      return terms.has(iri.slice(namespace.length))
+    }
+    const settings = this.config.settings
+    const diagnostics = this.lint.run(model, settings, { defines, importedTerms, importedNamespaces })
+    return applySuppressions(model, applySeverities(diagnostics, settings.severity))
+  }
 }
 
 function normalizePrefix(pref?: string) {
   return pref && pref.length > 0 ? pref : ":"
 }
 
-function displayPrefix(pref?: string) {
-  return pref && pref.length > 0 ? pref : ":"
-}
-
 const connection = createConnection(ProposedFeatures.all, process.stdin, process.stdout)
 const workspaceRoot = process.cwd()
 
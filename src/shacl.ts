@@ -0,0 +1,490 @@
+import { Diagnostic, DiagnosticSeverity } from "vscode-languageserver/node"
+import { DataFactory, Literal, Quad, Store, Term } from "n3"
+import { SyntaxModel, TermNode } from "./syntax"
+
+const SH = "http://www.w3.org/ns/shacl#"
+const RDF = "http://www.w3.org/1999/02/22-rdf-syntax-ns#"
+const RDFS = "http://www.w3.org/2000/01/rdf-schema#"
+const XSD = "http://www.w3.org/2001/XMLSchema#"
+
+const RDF_TYPE = `${RDF}type`
+const RDF_FIRST = `${RDF}first`
+const RDF_REST = `${RDF}rest`
+const RDF_NIL = `${RDF}nil`
+const RDF_LANG_STRING = `${RDF}langString`
+const RDFS_SUBCLASS_OF = `${RDFS}subClassOf`
+
+const NUMERIC_TYPES = new Set(
+	[
+		"decimal", "integer", "double", "float", "long", "int", "short", "byte",
+		"nonNegativeInteger", "positiveInteger", "nonPositiveInteger", "negativeInteger",
+		"unsignedLong", "unsignedInt", "unsignedShort", "unsignedByte",
+	].map((name) => XSD + name)
+)
+const TEMPORAL_TYPES: Record<string, "dateTime" | "date" | "time"> = {
+	[`${XSD}dateTime`]: "dateTime",
+	[`${XSD}dateTimeStamp`]: "dateTime",
+	[`${XSD}date`]: "date",
+	[`${XSD}time`]: "time",
+}
+const TEMPORAL_FORMS = {
+	dateTime: /^(-?\d{4,}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?)(Z|[+-]\d{2}:\d{2})?$/,
+	date: /^(-?\d{4,}-\d{2}-\d{2})(Z|[+-]\d{2}:\d{2})?$/,
+	time: /^(\d{2}:\d{2}:\d{2}(?:\.\d+)?)(Z|[+-]\d{2}:\d{2})?$/,
+}
+
+const { namedNode } = DataFactory
+
+export type ShaclResult = {
+	focusNode: Term
+	resultPath?: Term
+	value?: Term
+	sourceShape: Term
+	sourceConstraintComponent: string
+	resultSeverity: string
+	resultMessage: string
+}
+
+/**
+ * Returns true when the quads declare at least one SHACL shape, i.e. the document
+ * should contribute to the workspace shapes graph.
+ */
+export function containsShapes(quads: Quad[]): boolean {
+	return quads.some(
+		(q) =>
+			(q.predicate.value === RDF_TYPE && (q.object.value === `${SH}NodeShape` || q.object.value === `${SH}PropertyShape`)) ||
+			q.predicate.value.startsWith(SH + "target")
+	)
+}
+
+/**
+ * Minimal, offline SHACL Core validator. Supports targets, property paths made of a
+ * single IRI or sh:inversePath, cardinality, value type, value range, string based,
+ * property pair (equals/disjoint), shape based (node/property/not) and other
+ * (closed/hasValue/in) constraint components. `typesOf` supplies the classes the rest of the
+ * workspace gives an IRI, for `sh:class` values typed outside the data being validated.
+ */
+export class ShaclValidator {
+	private shapes: Store
+
+	constructor(shapeQuads: Quad[], private typesOf: (iri: string) => string[] = () => []) {
+		this.shapes = new Store(shapeQuads)
+	}
+
+	validate(dataQuads: Quad[]): ShaclResult[] {
+		const data = new Store(dataQuads)
+		const results: ShaclResult[] = []
+		for (const shape of this.collectShapes()) {
+			if (this.isDeactivated(shape)) continue
+			for (const focus of this.targetNodes(shape, data)) {
+				this.validateNode(shape, focus, data, results)
+			}
+		}
+		return results
+	}
+
+	private collectShapes(): Term[] {
+		const found = new Map<string, Term>()
+		const add = (t: Term) => found.set(t.id, t)
+		for (const q of this.shapes.getQuads(null, RDF_TYPE, `${SH}NodeShape`, null)) add(q.subject)
+		for (const q of this.shapes.getQuads(null, RDF_TYPE, `${SH}PropertyShape`, null)) add(q.subject)
+		for (const pred of ["targetClass", "targetNode", "targetSubjectsOf", "targetObjectsOf"]) {
+			for (const q of this.shapes.getQuads(null, SH + pred, null, null)) add(q.subject)
+		}
+		return Array.from(found.values())
+	}
+
+	private targetNodes(shape: Term, data: Store): Term[] {
+		const targets = new Map<string, Term>()
+		const add = (t: Term) => targets.set(t.id, t)
+
+		const classes = this.objects(shape, `${SH}targetClass`)
+		const isClass = this.shapes.getQuads(shape, RDF_TYPE, `${RDFS}Class`, null).length > 0 ||
+			this.shapes.getQuads(shape, RDF_TYPE, "http://www.w3.org/2002/07/owl#Class", null).length > 0
+		if (isClass) classes.push(shape)
+		for (const cls of classes) {
+			for (const sub of this.subClassClosure(cls, data)) {
+				for (const q of data.getQuads(null, RDF_TYPE, sub, null)) add(q.subject)
+			}
+		}
+		// Only nodes the data mentions; other documents are validated on their own
+		for (const node of this.objects(shape, `${SH}targetNode`)) {
+			if (data.countQuads(node, null, null, null) > 0 || data.countQuads(null, null, node, null) > 0) add(node)
+		}
+		for (const pred of this.objects(shape, `${SH}targetSubjectsOf`)) {
+			for (const q of data.getQuads(null, pred, null, null)) add(q.subject)
+		}
+		for (const pred of this.objects(shape, `${SH}targetObjectsOf`)) {
+			for (const q of data.getQuads(null, pred, null, null)) add(q.object)
+		}
+		return Array.from(targets.values())
+	}
+
+	private validateNode(shape: Term, focus: Term, data: Store, results: ShaclResult[], depth = 0) {
+		if (depth > 16) return
+		const path = this.first(shape, `${SH}path`)
+		if (path) {
+			const values = this.pathValues(focus, path, data)
+			this.validatePropertyConstraints(shape, focus, path, values, data, results)
+			this.validateValues(shape, focus, path, values, data, results, depth)
+		} else {
+			this.validateValues(shape, focus, undefined, [focus], data, results, depth)
+		}
+
+		for (const prop of this.objects(shape, `${SH}property`)) {
+			if (this.isDeactivated(prop)) continue
+			this.validateNode(prop, focus, data, results, depth + 1)
+		}
+
+		if (this.isTrue(shape, `${SH}closed`)) {
+			const allowed = new Set<string>()
+			for (const prop of this.objects(shape, `${SH}property`)) {
+				const p = this.first(prop, `${SH}path`)
+				if (p && p.termType === "NamedNode") allowed.add(p.value)
+			}
+			for (const ignored of this.listFor(shape, `${SH}ignoredProperties`)) allowed.add(ignored.value)
+			for (const q of data.getQuads(focus, null, null, null)) {
+				if (allowed.has(q.predicate.value)) continue
+				this.report(results, shape, focus, q.predicate, q.object, "ClosedConstraintComponent",
+					`Predicate ${q.predicate.value} is not allowed (closed shape)`)
+			}
+		}
+	}
+
+	private validatePropertyConstraints(
+		shape: Term,
+		focus: Term,
+		path: Term,
+		values: Term[],
+		data: Store,
+		results: ShaclResult[]
+	) {
+		const minCount = this.intValue(shape, `${SH}minCount`)
+		if (minCount !== undefined && values.length < minCount) {
+			this.report(results, shape, focus, path, undefined, "MinCountConstraintComponent",
+				`Less than ${minCount} values on ${this.describe(focus)}->${this.describe(path)}`)
+		}
+		const maxCount = this.intValue(shape, `${SH}maxCount`)
+		if (maxCount !== undefined && values.length > maxCount) {
+			this.report(results, shape, focus, path, undefined, "MaxCountConstraintComponent",
+				`More than ${maxCount} values on ${this.describe(focus)}->${this.describe(path)}`)
+		}
+		if (this.isTrue(shape, `${SH}uniqueLang`)) {
+			const seen = new Set<string>()
+			for (const v of values) {
+				if (v.termType !== "Literal" || !v.language) continue
+				if (seen.has(v.language)) {
+					this.report(results, shape, focus, path, undefined, "UniqueLangConstraintComponent",
+						`Language "${v.language}" used more than once`)
+				}
+				seen.add(v.language)
+			}
+		}
+		for (const other of this.objects(shape, `${SH}equals`)) {
+			const otherValues = data.getObjects(focus, other, null)
+			const mine = new Set(values.map((v) => v.id))
+			const theirs = new Set(otherValues.map((v) => v.id))
+			for (const v of values) {
+				if (!theirs.has(v.id)) {
+					this.report(results, shape, focus, path, v, "EqualsConstraintComponent", `Value is not a value of ${this.describe(other)}`)
+				}
+			}
+			for (const v of otherValues) {
+				if (!mine.has(v.id)) {
+					this.report(results, shape, focus, path, v, "EqualsConstraintComponent", `Missing value of ${this.describe(other)}`)
+				}
+			}
+		}
+		for (const other of this.objects(shape, `${SH}disjoint`)) {
+			const theirs = new Set(data.getObjects(focus, other, null).map((v) => v.id))
+			for (const v of values) {
+				if (theirs.has(v.id)) {
+					this.report(results, shape, focus, path, v, "DisjointConstraintComponent", `Value is also a value of ${this.describe(other)}`)
+				}
+			}
+		}
+	}
+
+	private validateValues(
+		shape: Term,
+		focus: Term,
+		path: Term | undefined,
+		values: Term[],
+		data: Store,
+		results: ShaclResult[],
+		depth: number
+	) {
+		const report = (value: Term, component: string, message: string) =>
+			this.report(results, shape, focus, path, value, component, message)
+
+		const classes = this.objects(shape, `${SH}class`)
+		const datatype = this.first(shape, `${SH}datatype`)
+		const nodeKind = this.first(shape, `${SH}nodeKind`)
+		const pattern = this.first(shape, `${SH}pattern`)
+		const flags = this.first(shape, `${SH}flags`)
+		const minLength = this.intValue(shape, `${SH}minLength`)
+		const maxLength = this.intValue(shape, `${SH}maxLength`)
+		const inList = this.listFor(shape, `${SH}in`)
+		const hasValues = this.objects(shape, `${SH}hasValue`)
+		const ranges: Array<[string, (a: number, b: number) => boolean, string]> = [
+			["minInclusive", (a, b) => a >= b, ">="],
+			["maxInclusive", (a, b) => a <= b, "<="],
+			["minExclusive", (a, b) => a > b, ">"],
+			["maxExclusive", (a, b) => a < b, "<"],
+		]
+
+		for (const value of values) {
+			for (const cls of classes) {
+				if (!this.isInstanceOf(value, cls, data)) {
+					report(value, "ClassConstraintComponent", `Value does not have class ${this.describe(cls)}`)
+				}
+			}
+			if (datatype && !this.hasDatatype(value, datatype.value)) {
+				report(value, "DatatypeConstraintComponent", `Value does not have datatype ${this.describe(datatype)}`)
+			}
+			if (nodeKind && !this.matchesNodeKind(value, nodeKind.value)) {
+				report(value, "NodeKindConstraintComponent", `Value does not have node kind ${this.describe(nodeKind)}`)
+			}
+			if (pattern && value.termType !== "BlankNode") {
+				let ok = true
+				try {
+					ok = new RegExp(pattern.value, flags?.value ?? "").test(value.value)
+				} catch {
+					ok = true
+				}
+				if (!ok) report(value, "PatternConstraintComponent", `Value does not match pattern "${pattern.value}"`)
+			}
+			if (minLength !== undefined && (value.termType === "BlankNode" || value.value.length < minLength)) {
+				report(value, "MinLengthConstraintComponent", `Value has less than ${minLength} characters`)
+			}
+			if (maxLength !== undefined && (value.termType === "BlankNode" || value.value.length > maxLength)) {
+				report(value, "MaxLengthConstraintComponent", `Value has more than ${maxLength} characters`)
+			}
+			for (const [name, compare, op] of ranges) {
+				const bound = this.first(shape, SH + name)
+				const limit = bound && orderedValue(bound)
+				// Bounds of other datatypes (strings, durations, ...) are not checked
+				if (!bound || !limit) continue
+				const actual = orderedValue(value)
+				const component = name.charAt(0).toUpperCase() + name.slice(1) + "ConstraintComponent"
+				if (actual?.kind !== limit.kind) {
+					report(value, component, `Value is not comparable with ${bound.value}`)
+				} else if (!compare(actual.value, limit.value)) {
+					report(value, component, `Value is not ${op} ${bound.value}`)
+				}
+			}
+			if (inList.length > 0 && !inList.some((t) => t.equals(value))) {
+				report(value, "InConstraintComponent", `Value is not in ${inList.map((t) => this.describe(t)).join(", ")}`)
+			}
+			for (const node of this.objects(shape, `${SH}node`)) {
+				if (!this.conforms(node, value, data, depth)) {
+					report(value, "NodeConstraintComponent", `Value does not conform to shape ${this.describe(node)}`)
+				}
+			}
+			for (const negated of this.objects(shape, `${SH}not`)) {
+				if (this.conforms(negated, value, data, depth)) {
+					report(value, "NotConstraintComponent", `Value conforms to shape ${this.describe(negated)}`)
+				}
+			}
+		}
+
+		for (const expected of hasValues) {
+			if (!values.some((v) => v.equals(expected))) {
+				this.report(results, shape, focus, path, undefined, "HasValueConstraintComponent",
+					`Missing expected value ${this.describe(expected)}`)
+			}
+		}
+	}
+
+	private conforms(shape: Term, focus: Term, data: Store, depth: number): boolean {
+		const nested: ShaclResult[] = []
+		this.validateNode(shape, focus, data, nested, depth + 1)
+		return nested.length === 0
+	}
+
+	private report(
+		results: ShaclResult[],
+		shape: Term,
+		focus: Term,
+		path: Term | undefined,
+		value: Term | undefined,
+		component: string,
+		defaultMessage: string
+	) {
+		const severity = this.first(shape, `${SH}severity`)?.value ?? `${SH}Violation`
+		const messages = this.objects(shape, `${SH}message`)
+		results.push({
+			focusNode: focus,
+			resultPath: path,
+			value,
+			sourceShape: shape,
+			sourceConstraintComponent: SH + component,
+			resultSeverity: severity,
+			resultMessage: messages.length > 0 ? messages.map((m) => m.value).join(" ") : defaultMessage,
+		})
+	}
+
+	private pathValues(focus: Term, path: Term, data: Store): Term[] {
+		if (path.termType === "NamedNode") return data.getObjects(focus, path, null)
+		const inverse = this.first(path, `${SH}inversePath`)
+		if (inverse && inverse.termType === "NamedNode") return data.getSubjects(inverse, focus, null)
+		return []
+	}
+
+	private subClassClosure(cls: Term, data: Store): Term[] {
+		const seen = new Map<string, Term>([[cls.id, cls]])
+		const queue = [cls]
+		while (queue.length) {
+			const current = queue.shift()!
+			for (const store of [data, this.shapes]) {
+				for (const sub of store.getSubjects(RDFS_SUBCLASS_OF, current, null)) {
+					if (seen.has(sub.id)) continue
+					seen.set(sub.id, sub)
+					queue.push(sub)
+				}
+			}
+		}
+		return Array.from(seen.values())
+	}
+
+	private isInstanceOf(value: Term, cls: Term, data: Store): boolean {
+		if (value.termType === "Literal") return false
+		const accepted = new Set(this.subClassClosure(cls, data).map((t) => t.id))
+		if (data.getObjects(value, RDF_TYPE, null).some((t) => accepted.has(t.id))) return true
+		return value.termType === "NamedNode" && this.typesOf(value.value).some((type) => accepted.has(namedNode(type).id))
+	}
+
+	private hasDatatype(value: Term, datatype: string): boolean {
+		if (value.termType !== "Literal") return false
+		if (value.language) return datatype === RDF_LANG_STRING
+		return (value.datatype?.value ?? `${XSD}string`) === datatype
+	}
+
+	private matchesNodeKind(value: Term, kind: string): boolean {
+		const type = value.termType === "NamedNode" ? "IRI" : value.termType === "BlankNode" ? "BlankNode" : "Literal"
+		const allowed: Record<string, string[]> = {
+			[`${SH}IRI`]: ["IRI"],
+			[`${SH}BlankNode`]: ["BlankNode"],
+			[`${SH}Literal`]: ["Literal"],
+			[`${SH}BlankNodeOrIRI`]: ["BlankNode", "IRI"],
+			[`${SH}BlankNodeOrLiteral`]: ["BlankNode", "Literal"],
+			[`${SH}IRIOrLiteral`]: ["IRI", "Literal"],
+		}
+		return (allowed[kind] || []).includes(type)
+	}
+
+	private isDeactivated(shape: Term): boolean {
+		return this.isTrue(shape, `${SH}deactivated`)
+	}
+
+	private isTrue(subject: Term, predicate: string): boolean {
+		return this.first(subject, predicate)?.value === "true"
+	}
+
+	private intValue(subject: Term, predicate: string): number | undefined {
+		const term = this.first(subject, predicate)
+		if (!term) return undefined
+		const value = parseInt(term.value, 10)
+		return Number.isNaN(value) ? undefined : value
+	}
+
+	private first(subject: Term, predicate: string): Term | undefined {
+		return this.objects(subject, predicate)[0]
+	}
+
+	private objects(subject: Term, predicate: string): Term[] {
+		return this.shapes.getObjects(subject, namedNode(predicate), null)
+	}
+
+	private listFor(subject: Term, predicate: string): Term[] {
+		const head = this.first(subject, predicate)
+		const items: Term[] = []
+		let node = head
+		const seen = new Set<string>()
+		while (node && node.value !== RDF_NIL && !seen.has(node.id)) {
+			seen.add(node.id)
+			const item = this.first(node, RDF_FIRST)
+			if (item) items.push(item)
+			node = this.first(node, RDF_REST)
+		}
+		return items
+	}
+
+	private describe(term: Term): string {
+		return term.termType === "NamedNode" ? `<${term.value}>` : term.termType === "Literal" ? `"${term.value}"` : "[]"
+	}
+}
+
+/**
+ * Maps validation results onto the document: the focus node's subject position, narrowed
+ * to the predicate when the result has a path. Results on blank nodes are reported at the
+ * triple that references them; results on nodes the document does not contain are dropped.
+ */
+export function shaclResultsToDiagnostics(model: SyntaxModel, results: ShaclResult[]): Diagnostic[] {
+	const quads = model.quads || []
+	const diagnostics: Diagnostic[] = []
+	const seen = new Set<string>()
+
+	const locateNode = (node: Term, depth = 0): TermNode | undefined => {
+		if (node.termType === "NamedNode") {
+			return model.terms.find((t) => t.iri === node.value && t.role === "subject") ?? model.terms.find((t) => t.iri === node.value)
+		}
+		if (depth > 8) return undefined
+		const parent = quads.find((q) => q.object.equals(node))
+		if (!parent) return undefined
+		const subject = locateNode(parent.subject, depth + 1)
+		return subject ? locatePredicate(parent.predicate.value, subject) ?? subject : undefined
+	}
+
+	// Looks for the predicate in every statement about the same subject
+	const locatePredicate = (iri: string, subject: TermNode) =>
+		model.terms.find((t) => t.role === "predicate" && t.iri === iri && model.statements[t.statement]?.subject?.iri === subject.iri)
+
+	for (const result of results) {
+		let term = locateNode(result.focusNode)
+		if (!term) continue
+		if (result.resultPath?.termType === "NamedNode") {
+			term = locatePredicate(result.resultPath.value, term) ?? term
+		}
+		const range = term.range
+		const key = `${range.start.line}:${range.start.character}:${result.sourceConstraintComponent}:${result.resultMessage}`
+		if (seen.has(key)) continue
+		seen.add(key)
+		diagnostics.push({
+			severity: mapSeverity(result.resultSeverity),
+			range,
+			message: result.resultMessage,
+			source: "turtle-node-lsp (shacl)",
+			code: result.sourceConstraintComponent.replace(SH, "sh:"),
+		})
+	}
+	return diagnostics
+}
+
+/**
+ * Value of a literal as ordered by the range constraints: numbers as themselves, dates and
+ * times as milliseconds, UTC when they have no timezone. Undefined for other datatypes and
+ * invalid lexical forms.
+ */
+function orderedValue(term: Term): { kind: string; value: number } | undefined {
+	if (term.termType !== "Literal") return undefined
+	const datatype = (term as Literal).datatype.value
+	if (NUMERIC_TYPES.has(datatype)) {
+		const text = term.value.trim()
+		const value = text === "INF" ? Infinity : text === "-INF" ? -Infinity : text === "" ? NaN : Number(text)
+		return Number.isNaN(value) ? undefined : { kind: "number", value }
+	}
+	const kind = TEMPORAL_TYPES[datatype]
+	const match = kind && TEMPORAL_FORMS[kind].exec(term.value.trim())
+	if (!match) return undefined
+	const zone = match[2] ?? "Z"
+	const text = kind === "dateTime" ? match[1] + zone : kind === "date" ? `${match[1]}T00:00:00${zone}` : `1970-01-01T${match[1]}${zone}`
+	const value = Date.parse(text)
+	return Number.isNaN(value) ? undefined : { kind, value }
+}
+
+function mapSeverity(iri: string): DiagnosticSeverity {
+	if (iri === `${SH}Warning`) return DiagnosticSeverity.Warning
+	if (iri === `${SH}Info`) return DiagnosticSeverity.Information
+	return DiagnosticSeverity.Error
+}
@@ -0,0 +1,82 @@
+import {
+	CompletionItem,
+	CompletionItemKind,
+	Location,
+	Position,
+	TextDocumentPositionParams,
+} from "vscode-languageserver/node"
+import { TextDocument } from "vscode-languageserver-textdocument"
+import { prefixes as zazukoPrefixes } from "@zazuko/rdf-vocabularies"
+import { CompletionEngine } from "./completion"
+import { Indexer } from "./indexer"
+import { SyntaxModel } from "./syntax"
+
+// `PREFIX` followed by the label being typed, up to the cursor
+const PREFIX_LABEL = /\bPREFIX\s+([^\s:]*:?)$/i
+
+/**
+ * Editor support for SPARQL queries over the ontology in the workspace. Queries are never
+ * indexed; their terms are looked up in the Turtle index and the loaded vocabularies. Hover
+ * is shared with Turtle documents, see `HoverEngine`.
+ */
+export class SparqlEngine {
+	constructor(private indexer: Indexer, private completion: CompletionEngine) {}
+
+	/**
+	 * After `PREFIX`, the bindings declared in the workspace and the known ones; elsewhere the
+	 * workspace subjects, vocabulary terms and SPARQL keywords.
+	 */
+	async completions(
+		params: TextDocumentPositionParams,
+		doc: TextDocument,
+		model: SyntaxModel,
+		namespaceMap: Record<string, string>,
+		known: Record<string, string>
+	): Promise<CompletionItem[]> {
+		const line = doc.getText({ start: { line: params.position.line, character: 0 }, end: params.position })
+		const typed = PREFIX_LABEL.exec(line)
+		if (typed) return this.prefixCompletions(params.position, typed[1], model, known)
+		return this.completion.build(params, doc, model, namespaceMap, "sparql")
+	}
+
+	private prefixCompletions(
+		position: Position,
+		typed: string,
+		model: SyntaxModel,
+		known: Record<string, string>
+	): CompletionItem[] {
+		const declared = model.prefixMap()
+		const range = { start: { line: position.line, character: position.character - typed.length }, end: position }
+		const items: CompletionItem[] = []
+		const seen = new Set<string>()
+		const add = (prefix: string, namespace: string, rank: number, detail: string) => {
+			if (prefix in declared || seen.has(prefix)) return
+			seen.add(prefix)
+			const newText = `${prefix}: <${namespace}>`
+			items.push({
+				label: `${prefix}:`,
+				kind: CompletionItemKind.Module,
+				detail: `${namespace} (${detail})`,
+				filterText: `${prefix}:`,
+				sortText: `${rank}_${prefix}`,
+				textEdit: { range, newText },
+			})
+		}
+
+		for (const [prefix, namespaces] of Object.entries(this.indexer.collectPrefixBindings())) {
+			add(prefix, namespaces[0], 0, "workspace")
+		}
+		for (const [prefix, namespace] of Object.entries(known)) add(prefix, namespace, 1, "built-in")
+		for (const [prefix, namespace] of Object.entries(zazukoPrefixes as Record<string, string>)) {
+			add(prefix, namespace, 2, "Zazuko")
+		}
+		return items
+	}
+
+	// From a term in the query to the statements that describe it in the workspace
+	definition(model: SyntaxModel, position: Position): Location[] {
+		const term = model.termAt(position)
+		if (!term) return []
+		return this.indexer.getSubjects(term.iri).map(({ uri, range }) => ({ uri, range }))
+	}
+}
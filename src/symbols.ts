@@ -0,0 +1,223 @@
+import {
+	DocumentSymbol,
+	Range,
+	SymbolInformation,
+	SymbolKind,
+	WorkspaceSymbol,
+	WorkspaceSymbolParams,
+} from "vscode-languageserver/node"
+import path from "path"
+import { Indexer } from "./indexer"
+import { QuotedTripleNode, RDF_TYPE, SyntaxModel, TermNode } from "./syntax"
+import { abbreviateWithPrefixes, toFsPath } from "./util"
+
+const RDFS = "http://www.w3.org/2000/01/rdf-schema#"
+const OWL = "http://www.w3.org/2002/07/owl#"
+const SH = "http://www.w3.org/ns/shacl#"
+
+export const LABEL_PREDICATES = [`${RDFS}label`, "http://www.w3.org/2004/02/skos/core#prefLabel"]
+
+const CLASS_TYPES = new Set([`${RDFS}Class`, `${OWL}Class`, `${RDFS}Datatype`, `${OWL}Restriction`])
+const PROPERTY_TYPES = new Set([
+	"http://www.w3.org/1999/02/22-rdf-syntax-ns#Property",
+	`${OWL}ObjectProperty`,
+	`${OWL}DatatypeProperty`,
+	`${OWL}AnnotationProperty`,
+	`${OWL}FunctionalProperty`,
+	`${OWL}InverseFunctionalProperty`,
+	`${OWL}TransitiveProperty`,
+	`${OWL}SymmetricProperty`,
+	`${OWL}AsymmetricProperty`,
+	`${OWL}ReflexiveProperty`,
+	`${OWL}IrreflexiveProperty`,
+	`${OWL}OntologyProperty`,
+])
+const SHAPE_TYPES = new Set([`${SH}NodeShape`, `${SH}PropertyShape`, `${SH}Shape`])
+
+// Results returned for one query; clients refine by typing more
+const MAX_WORKSPACE_SYMBOLS = 500
+
+export class SymbolEngine {
+	constructor(private indexer: Indexer) {}
+
+	/**
+	 * Subjects of the whole workspace whose local name, prefixed form or label fuzzily matches
+	 * the query, best matches first.
+	 */
+	workspaceSymbols(params: WorkspaceSymbolParams): WorkspaceSymbol[] {
+		const query = params.query.trim().toLowerCase()
+		const scored: Array<{ symbol: WorkspaceSymbol; score: number }> = []
+
+		for (const iri of this.indexer.collectGlobalSubjects()) {
+			const locations = this.indexer.getSubjects(iri)
+			if (locations.length === 0) continue
+			const labels = LABEL_PREDICATES.flatMap((p) => this.indexer.getObjects(iri, p).map((t) => t.object))
+			const kind = this.symbolKind(iri)
+
+			for (const loc of locations) {
+				const prefixed = loc.surface.startsWith("<") ? this.abbreviate(iri, loc.uri, loc.surface) : loc.surface
+				const candidates = [localName(iri), prefixed, ...labels]
+				const score = query ? Math.max(...candidates.map((c) => fuzzyScore(query, c.toLowerCase()))) : 0
+				if (score < 0) continue
+				scored.push({
+					symbol: {
+						name: prefixed,
+						kind,
+						location: { uri: loc.uri, range: loc.range },
+						containerName: labels[0] ?? path.basename(toFsPath(loc.uri)),
+					},
+					score,
+				})
+			}
+		}
+
+		scored.sort((a, b) => b.score - a.score || a.symbol.name.localeCompare(b.symbol.name))
+		return scored.slice(0, MAX_WORKSPACE_SYMBOLS).map((s) => s.symbol)
+	}
+
+	/**
+	 * Prefix declarations and subjects of the document. TriG graph blocks become container
+	 * symbols holding their subjects; flat clients get the graph as container name instead.
+	 * RDF-star statements about a quoted triple are listed under that triple, and annotated
+	 * triples under the subject of their statement.
+	 */
+	documentSymbols(model: SyntaxModel, hierarchical: boolean): DocumentSymbol[] | SymbolInformation[] {
+		const prefixes = model.prefixes.map((ns) => ({
+			name: `${ns.prefix}: ${ns.iri}`,
+			kind: SymbolKind.Namespace,
+			range: ns.declRange,
+			selectionRange: ns.range,
+		}))
+		const blocks = model.graphs.map((graph) => ({
+			name: graph.nameRange ? model.text.slice(graph.start, model.offsetAt(graph.nameRange.end)) : "(default graph)",
+			kind: SymbolKind.Module,
+			range: graph.range,
+			selectionRange: graph.nameRange ?? graph.range,
+			children: [] as DocumentSymbol[],
+		}))
+		const topLevel: DocumentSymbol[] = []
+		// Symbol of each statement's subject, shared by repeated subjects
+		const owners = new Map<number, DocumentSymbol>()
+		const bySubject = new Map<string, DocumentSymbol>()
+		const place = (symbol: DocumentSymbol, block: number | undefined) => {
+			if (block !== undefined && blocks[block]) blocks[block].children.push(symbol)
+			else topLevel.push(symbol)
+		}
+
+		for (const subject of model.subjects) {
+			const block = model.statements[subject.statement]?.block
+			const key = `${block ?? ""} ${subject.iri}`
+			let symbol = bySubject.get(key)
+			if (!symbol) {
+				symbol = this.subjectSymbol(model, subject)
+				bySubject.set(key, symbol)
+				place(symbol, block)
+			}
+			owners.set(subject.statement, symbol)
+		}
+
+		for (const node of model.quotedTriples) {
+			const statement = model.statements[node.statement]
+			const symbol: DocumentSymbol = {
+				name: quotedTripleName(model, node),
+				kind: SymbolKind.Struct,
+				range: node.range,
+				selectionRange: node.range,
+			}
+			if (!node.annotation && statement && model.offsetAt(node.range.start) === statement.start) {
+				// A statement whose subject is a quoted triple
+				const owner = { ...symbol, range: statement.range }
+				owners.set(node.statement, owner)
+				place(owner, statement.block)
+			} else if (node.annotation) {
+				const owner = owners.get(node.statement)
+				if (owner) owner.children = [...(owner.children ?? []), symbol]
+				else place(symbol, statement?.block)
+			}
+		}
+
+		if (hierarchical) return [...prefixes, ...blocks, ...topLevel]
+
+		const flatten = (symbol: DocumentSymbol, containerName?: string): SymbolInformation[] => [
+			{
+				name: symbol.name,
+				kind: symbol.kind,
+				location: { uri: model.uri, range: symbol.selectionRange },
+				containerName,
+			},
+			...(symbol.children ?? []).flatMap((child) => flatten(child, symbol.name)),
+		]
+		return [...prefixes, ...blocks, ...topLevel].flatMap((symbol) => flatten(symbol))
+	}
+
+	private subjectSymbol(model: SyntaxModel, subject: TermNode): DocumentSymbol {
+		const statement = model.statements[subject.statement]
+		return {
+			name: subject.surface,
+			kind: this.symbolKind(subject.iri),
+			range: statement?.range ?? subject.range,
+			selectionRange: subject.range,
+		}
+	}
+
+	// Prefixed form through the defining document's prefixes, else the IRI as written there
+	private abbreviate(iri: string, uri: string, surface: string): string {
+		const abbreviated = abbreviateWithPrefixes(iri, this.indexer.getPrefixMap(uri))
+		return abbreviated !== iri ? abbreviated : surface
+	}
+
+	/**
+	 * Kind derived from the subject's `rdf:type` across the workspace, falling back to what its
+	 * schema statements imply (subclass axioms make a class, domain/range a property).
+	 */
+	symbolKind(iri: string): SymbolKind {
+		const outgoing = this.indexer.getOutgoing(iri)
+		const types = outgoing.filter((t) => t.predicate === RDF_TYPE).map((t) => t.object)
+		if (types.some((t) => SHAPE_TYPES.has(t))) return SymbolKind.Interface
+		if (types.some((t) => CLASS_TYPES.has(t))) return SymbolKind.Class
+		if (types.some((t) => PROPERTY_TYPES.has(t))) return SymbolKind.Property
+		if (types.length > 0) return SymbolKind.Object
+
+		const predicates = new Set(outgoing.map((t) => t.predicate))
+		if (predicates.has(`${RDFS}subClassOf`) || predicates.has(`${OWL}equivalentClass`)) return SymbolKind.Class
+		if (predicates.has(`${RDFS}domain`) || predicates.has(`${RDFS}range`) || predicates.has(`${RDFS}subPropertyOf`)) {
+			return SymbolKind.Property
+		}
+		return SymbolKind.Object
+	}
+}
+
+// `<< s p o >>` with whitespace collapsed; annotations are named after the triple they annotate
+function quotedTripleName(model: SyntaxModel, node: QuotedTripleNode): string {
+	const slice = (range: Range) =>
+		model.text.slice(model.offsetAt(range.start), model.offsetAt(range.end)).replace(/\s+/g, " ")
+	if (!node.annotation) return slice(node.range)
+	const parts = [node.subject, node.predicate, node.object].map((part) => (part ? slice(part.range) : "?"))
+	return `<< ${parts.join(" ")} >>`
+}
+
+function localName(iri: string): string {
+	return iri.replace(/^.*[#/:]/, "") || iri
+}
+
+/**
+ * Subsequence match: every query character must appear in order. Consecutive runs and matches
+ * at word starts score higher. Returns -1 when the query does not match.
+ */
+function fuzzyScore(query: string, candidate: string): number {
+	let score = 0
+	let run = 0
+	let from = 0
+	for (const ch of query) {
+		const idx = candidate.indexOf(ch, from)
+		if (idx < 0) return -1
+		run = idx === from ? run + 1 : 1
+		score += run
+		if (idx === 0 || /[^a-z0-9]/.test(candidate[idx - 1])) score += 2
+		from = idx + 1
+	}
+	if (candidate === query) score += 10
+	else if (candidate.startsWith(query)) score += 5
+	// Shorter candidates win among equal matches
+	return score - candidate.length / 100
+}
@@ -0,0 +1,669 @@
+import { Range } from "vscode-languageserver/node"
+import { TextDocument } from "vscode-languageserver-textdocument"
+import { Parser as N3Parser, Quad } from "n3"
+import { RdfFormat, formatOf, n3Format } from "./formats"
+import { STAR_DELIMITERS, Token, tokenize } from "./lexer"
+import { resolveLabel } from "./util"
+
+/**
+ * An IRI-valued term as it appears in a document. `surface` is the spelling at that
+ * location (`ex:Foo` or `<http://example.org/Foo>`), `iri` the absolute IRI it denotes.
+ */
+export type TermOccurrence = {
+	iri: string
+	surface: string
+	range: Range
+}
+
+export type TermRole = "subject" | "predicate" | "object" | "datatype" | "graph"
+
+export type TermNode = TermOccurrence & {
+	role: TermRole
+	start: number
+	end: number
+	// Index into `statements` of the statement the term belongs to; -1 for TriG block names
+	statement: number
+	// Inside an RDF-star `<< ... >>`: referenced, not asserted
+	quoted?: boolean
+}
+
+export type PrefixDecl = {
+	prefix: string
+	iri: string
+	// Range of the prefix label (without the colon)
+	range: Range
+	// Range of the whole directive, terminator included
+	declRange: Range
+	sparql: boolean
+}
+
+export type LiteralNode = {
+	text: string
+	// Lexical form with quotes removed and escapes resolved
+	value: string
+	range: Range
+	role: TermRole
+	language?: string
+	datatype?: string
+	statement: number
+}
+
+export type BlankNodeNode = {
+	// `[ ... ]` property lists span their brackets; labelled nodes cover `_:label`
+	range: Range
+	label?: string
+	role: TermRole
+	statement: number
+}
+
+export type PredicateNode = {
+	iri: string
+	range: Range
+}
+
+/**
+ * An RDF-star quoted triple used as a term: `<< s p o >>`, or the asserted triple an
+ * `{| ... |}` annotation is about. The range covers the delimiters of either form.
+ */
+export type QuotedTripleNode = {
+	range: Range
+	role: TermRole
+	statement: number
+	annotation: boolean
+	subject?: TermNode | BlankNodeNode | QuotedTripleNode
+	predicate?: PredicateNode
+	object?: TermNode | LiteralNode | BlankNodeNode | QuotedTripleNode
+}
+
+/**
+ * A triple as written: blank node subjects and objects stand for `[ ... ]` property lists or
+ * `_:labels`. Collections are not expanded. Quoted triples are only triples of their own
+ * when annotated; `<< ... >>` merely references one.
+ */
+export type SyntaxTriple = {
+	subject: TermNode | BlankNodeNode | QuotedTripleNode
+	// `a` is reported as rdf:type, ranged over the keyword
+	predicate: PredicateNode
+	object: TermNode | LiteralNode | BlankNodeNode | QuotedTripleNode
+	statement: number
+	// Graph name (IRI or `_:label`); absent in the default graph
+	graph?: string
+}
+
+/**
+ * A TriG `GRAPH? name { ... }` block, or a `{ ... }` default graph block when unnamed.
+ */
+export type GraphBlock = {
+	name?: string
+	nameRange?: Range
+	range: Range
+	start: number
+	end: number
+}
+
+export type Statement = {
+	start: number
+	end: number
+	range: Range
+	subject?: TermNode
+	terminated: boolean
+	// Graph the statement's triples belong to, from the enclosing block or the N-Quads label
+	graph?: string
+	// Index into `graphs` of the enclosing TriG block
+	block?: number
+}
+
+/**
+ * What the grammar expects next: the role of the next term (null after a complete triple,
+ * where a terminator or another predicate may follow) and, in object position, the subject
+ * and predicate the object completes.
+ */
+export type Expectation = {
+	role: "subject" | "predicate" | "object" | null
+	subject?: string
+	predicate?: string
+}
+
+export type ParseError = {
+	message: string
+	line: number
+}
+
+type Expect = "subject" | "predicate" | "object" | "afterObject"
+
+type Frame = {
+	// Formulas are N3 `{ ... }` graph terms; they hold statements like the top level does.
+	// Quoted frames read the three terms of a `<< ... >>`, annotation frames the `{| ... |}`
+	// predicate-object list.
+	kind: "statement" | "blankNode" | "collection" | "formula" | "quoted" | "annotation"
+	expect: Expect
+	start: number
+	node?: BlankNodeNode | QuotedTripleNode
+	subject?: TermNode | BlankNodeNode | QuotedTripleNode
+	predicate?: PredicateNode
+	// Last triple completed in this frame, the one a following annotation is about
+	triple?: SyntaxTriple
+}
+
+export const RDF_TYPE = "http://www.w3.org/1999/02/22-rdf-syntax-ns#type"
+
+const XSD = "http://www.w3.org/2001/XMLSchema#"
+
+/**
+ * Position-accurate view of one document version, produced by a single pass over the token
+ * stream. Every feature reads prefixes, terms, literals and statements from here instead of
+ * re-scanning the text; the n3 quads are only produced when a feature asks for them.
+ */
+export class SyntaxModel {
+	readonly tokens: Token[]
+	readonly prefixes: PrefixDecl[] = []
+	readonly terms: TermNode[] = []
+	readonly literals: LiteralNode[] = []
+	readonly blankNodes: BlankNodeNode[] = []
+	readonly statements: Statement[] = []
+	readonly triples: SyntaxTriple[] = []
+	readonly graphs: GraphBlock[] = []
+	// Quoted triples and annotations, outermost first
+	readonly quotedTriples: QuotedTripleNode[] = []
+	// Offsets right after the last token of statements that run into the next one unterminated
+	readonly missingTerminators: number[] = []
+	// Expectation where the text ends
+	expectation: Expectation = { role: "subject" }
+	base: string
+
+	private lineStarts: number[] = [0]
+	private declared: Record<string, string> = {}
+	private parsedQuads: Quad[] | null | undefined
+	private error: ParseError | null = null
+	// Expectation right after each token, recorded during the walk
+	private expectations: Expectation[] = []
+
+	constructor(
+		readonly uri: string,
+		readonly text: string,
+		readonly version = 0,
+		readonly format: RdfFormat = formatOf(uri)
+	) {
+		for (let i = 0; i < text.length; i++) {
+			if (text.charCodeAt(i) === 10) this.lineStarts.push(i + 1)
+		}
+		this.base = uri
+		this.tokens = tokenize(text)
+		this.walk()
+	}
+
+	static fromDocument(doc: TextDocument): SyntaxModel {
+		return new SyntaxModel(doc.uri, doc.getText(), doc.version, formatOf(doc.uri, doc.languageId))
+	}
+
+	// Subjects of asserted triples; the subjects of quoted triples are references
+	get subjects(): TermNode[] {
+		return this.terms.filter((t) => t.role === "subject" && !t.quoted)
+	}
+
+	// Whether the text uses RDF-star delimiters at all, parseable or not
+	get usesRdfStar(): boolean {
+		return this.tokens.some((t) => t.type === "punct" && STAR_DELIMITERS.has(t.text))
+	}
+
+	/**
+	 * Declared prefixes, later declarations winning, keyed by label (`""` for the empty prefix).
+	 */
+	prefixMap(): Record<string, string> {
+		const map: Record<string, string> = {}
+		for (const p of this.prefixes) map[p.prefix] = p.iri
+		return map
+	}
+
+	/**
+	 * Quads from n3, parsed on first use with the RDF-star variant of the document's format.
+	 * Null when the document does not conform to it. Whether RDF-star is allowed at all is a
+	 * workspace setting checked by the server.
+	 */
+	get quads(): Quad[] | null {
+		if (this.parsedQuads === undefined) {
+			try {
+				this.parsedQuads = new N3Parser({ baseIRI: this.uri, format: n3Format(this.format) }).parse(this.text)
+			} catch (err) {
+				this.parsedQuads = null
+				const line = (err as { context?: { line?: number } })?.context?.line
+				const message = err instanceof Error ? err.message : String(err)
+				this.error = { message, line: typeof line === "number" ? line - 1 : 0 }
+			}
+		}
+		return this.parsedQuads
+	}
+
+	/**
+	 * First grammar error reported by n3 (0-based line), null for valid documents.
+	 */
+	get parseError(): ParseError | null {
+		void this.quads
+		return this.error
+	}
+
+	positionAt(offset: number): { line: number; character: number } {
+		let lo = 0
+		let hi = this.lineStarts.length - 1
+		while (lo < hi) {
+			const mid = (lo + hi + 1) >> 1
+			if (this.lineStarts[mid] <= offset) lo = mid
+			else hi = mid - 1
+		}
+		return { line: lo, character: offset - this.lineStarts[lo] }
+	}
+
+	offsetAt(position: { line: number; character: number }): number {
+		const lineStart = this.lineStarts[Math.min(position.line, this.lineStarts.length - 1)] ?? 0
+		return Math.min(this.text.length, lineStart + position.character)
+	}
+
+	rangeOf(start: number, end: number): Range {
+		return { start: this.positionAt(start), end: this.positionAt(end) }
+	}
+
+	tokenAt(offset: number): Token | undefined {
+		let lo = 0
+		let hi = this.tokens.length - 1
+		while (lo <= hi) {
+			const mid = (lo + hi) >> 1
+			const tok = this.tokens[mid]
+			if (offset < tok.start) hi = mid - 1
+			else if (offset > tok.end) lo = mid + 1
+			else return tok
+		}
+		return undefined
+	}
+
+	/**
+	 * What the grammar expects at the offset, judged from the tokens that end before it only.
+	 */
+	expectationAt(offset: number): Expectation {
+		if (offset >= this.text.length) return this.expectation
+		let lo = 0
+		let hi = this.tokens.length - 1
+		let last = -1
+		while (lo <= hi) {
+			const mid = (lo + hi) >> 1
+			if (this.tokens[mid].end <= offset) {
+				last = mid
+				lo = mid + 1
+			} else hi = mid - 1
+		}
+		return last < 0 ? { role: "subject" } : this.expectations[last]
+	}
+
+	termAt(position: { line: number; character: number }): TermNode | undefined {
+		const offset = this.offsetAt(position)
+		return this.terms.find((t) => t.start <= offset && offset <= t.end)
+	}
+
+	private walk() {
+		const stack: Frame[] = []
+		let statement = -1
+		let lastEnd = 0
+
+		// Frame that consumed the most recent node
+		let owner: Frame | undefined
+		// Open TriG block and the name read ahead of its brace
+		let block: GraphBlock | undefined
+		let blockName: { name: string; start: number; range: Range } | undefined
+
+		const top = () => stack[stack.length - 1]
+		const openStatement = (start: number) => {
+			const opened: Statement = { start, end: start, range: this.rangeOf(start, start), terminated: false }
+			if (block) {
+				opened.block = this.graphs.length - 1
+				opened.graph = block.name
+			}
+			this.statements.push(opened)
+			statement = this.statements.length - 1
+			stack.length = 0
+			stack.push({ kind: "statement", expect: "subject", start })
+		}
+		const closeStatement = (end: number, terminated: boolean) => {
+			const current = this.statements[statement]
+			if (current) {
+				current.end = end
+				current.range = this.rangeOf(current.start, end)
+				current.terminated = terminated
+			}
+			stack.length = 0
+		}
+		// Role of the next node, advancing the frame as if the node had been consumed
+		const consume = (start: number): TermRole => {
+			let frame = top()
+			if (!frame || (frame.kind === "statement" && frame.expect === "afterObject")) {
+				if (frame) {
+					this.missingTerminators.push(lastEnd)
+					closeStatement(lastEnd, false)
+				}
+				openStatement(start)
+				frame = top()
+			}
+			// A formula statement missing its '.'; n3 reports it, the walk just starts the next one
+			if (frame.kind === "formula" && frame.expect === "afterObject") {
+				frame.expect = "subject"
+				frame.subject = frame.predicate = undefined
+			}
+			owner = frame
+			if (frame.kind === "collection") return "object"
+			switch (frame.expect) {
+				case "subject":
+					frame.expect = "predicate"
+					return "subject"
+				case "predicate":
+					frame.expect = "object"
+					return "predicate"
+				default:
+					frame.expect = "afterObject"
+					return "object"
+			}
+		}
+
+		// Links a node to the subject and predicate of the frame that consumed it
+		const attach = (node: TermNode | LiteralNode | BlankNodeNode | QuotedTripleNode | PredicateNode, role: TermRole) => {
+			const frame = owner
+			if (!frame || frame.kind === "collection") return
+			if (role === "subject") frame.subject = node as TermNode | BlankNodeNode | QuotedTripleNode
+			else if (role === "predicate") frame.predicate = node as PredicateNode
+			else if (role === "object" && frame.kind === "quoted") {
+				const quotedTriple = frame.node as QuotedTripleNode
+				quotedTriple.subject = frame.subject
+				quotedTriple.predicate = frame.predicate
+				quotedTriple.object = node as TermNode | LiteralNode | BlankNodeNode | QuotedTripleNode
+			} else if (role === "object" && frame.subject && frame.predicate) {
+				frame.triple = {
+					subject: frame.subject,
+					predicate: frame.predicate,
+					object: node as TermNode | LiteralNode | BlankNodeNode | QuotedTripleNode,
+					statement,
+				}
+				this.triples.push(frame.triple)
+			}
+		}
+		const quoted = () => stack.some((f) => f.kind === "quoted")
+
+		for (let k = 0; k < this.tokens.length; k++) {
+			// Expectation after the tokens handled so far, those a directive consumed included
+			while (this.expectations.length < k) this.expectations.push(expectationOf(top()))
+			const tok = this.tokens[k]
+			if (tok.type === "comment") continue
+
+			if (tok.type === "directive") {
+				if (stack.length > 0) {
+					this.missingTerminators.push(lastEnd)
+					closeStatement(lastEnd, false)
+				}
+				k = this.directive(k)
+				lastEnd = this.tokens[k]?.end ?? tok.end
+				continue
+			}
+
+			if (this.format === "trig" && stack.length === 0) {
+				// `GRAPH <g> {`, `<g> {` or `{` opening a block
+				if (tok.type === "keyword" && tok.text.toLowerCase() === "graph") {
+					lastEnd = tok.end
+					continue
+				}
+				if ((tok.type === "iri" || tok.type === "pname" || tok.type === "bnode") && this.nextCode(k)?.text === "{") {
+					const name = tok.type === "bnode" ? tok.text : this.addTerm(tok.text, tok.start, tok.end, "graph", -1).iri
+					blockName = { name, start: tok.start, range: this.rangeOf(tok.start, tok.end) }
+					lastEnd = tok.end
+					continue
+				}
+				if (tok.text === "{" && tok.type === "punct") {
+					const start = blockName?.start ?? tok.start
+					block = { name: blockName?.name, nameRange: blockName?.range, range: this.rangeOf(start, tok.end), start, end: tok.end }
+					this.graphs.push(block)
+					blockName = undefined
+					lastEnd = tok.end
+					continue
+				}
+			}
+
+			if (this.format === "nquads" && (tok.type === "iri" || tok.type === "bnode")) {
+				const frame = top()
+				if (frame?.kind === "statement" && frame.expect === "afterObject") {
+					const label = tok.type === "bnode" ? tok.text : this.addTerm(tok.text, tok.start, tok.end, "graph", statement).iri
+					this.statements[statement].graph = label
+					lastEnd = tok.end
+					continue
+				}
+			}
+
+			if (tok.type === "punct") {
+				const frame = top()
+				if (tok.text === "<<") {
+					const role = consume(tok.start)
+					const node: QuotedTripleNode = { range: this.rangeOf(tok.start, tok.end), role, statement, annotation: false }
+					this.quotedTriples.push(node)
+					attach(node, role)
+					stack.push({ kind: "quoted", expect: "subject", start: tok.start, node })
+				} else if (tok.text === "{|" && frame?.triple && frame.expect === "afterObject") {
+					const { subject, predicate, object } = frame.triple
+					const node: QuotedTripleNode = {
+						range: this.rangeOf(tok.start, tok.end),
+						role: "subject",
+						statement,
+						annotation: true,
+						subject,
+						predicate,
+						object,
+					}
+					this.quotedTriples.push(node)
+					stack.push({ kind: "annotation", expect: "predicate", start: tok.start, node, subject: node })
+				} else if ((tok.text === ">>" && frame?.kind === "quoted") || (tok.text === "|}" && frame?.kind === "annotation")) {
+					const closed = stack.pop()!
+					if (closed.node) closed.node.range = this.rangeOf(closed.start, tok.end)
+				} else if (tok.text === "{" && this.format === "n3") {
+					const role = consume(tok.start)
+					const node: BlankNodeNode = { range: this.rangeOf(tok.start, tok.end), role, statement }
+					attach(node, role)
+					stack.push({ kind: "formula", expect: "subject", start: tok.start, node })
+				} else if (tok.text === "}" && frame?.kind === "formula") {
+					const closed = stack.pop()!
+					if (closed.node) closed.node.range = this.rangeOf(closed.start, tok.end)
+				} else if (tok.text === "}" && block) {
+					// The last statement of a block may omit its '.'
+					if (stack.length > 0) closeStatement(lastEnd, true)
+					block.end = tok.end
+					block.range = this.rangeOf(block.start, tok.end)
+					block = undefined
+				} else if (tok.text === "[") {
+					const role = consume(tok.start)
+					const node: BlankNodeNode = { range: this.rangeOf(tok.start, tok.start + 1), role, statement }
+					this.blankNodes.push(node)
+					attach(node, role)
+					stack.push({ kind: "blankNode", expect: "predicate", start: tok.start, node, subject: node })
+				} else if (tok.text === "(") {
+					consume(tok.start)
+					stack.push({ kind: "collection", expect: "object", start: tok.start })
+				} else if ((tok.text === "]" && frame?.kind === "blankNode") || (tok.text === ")" && frame?.kind === "collection")) {
+					const closed = stack.pop()!
+					if (closed.node) closed.node.range = this.rangeOf(closed.start, tok.end)
+				} else if (tok.text === "." && frame) {
+					if (frame.kind === "statement") closeStatement(tok.end, true)
+					else if (frame.kind === "formula") {
+						frame.expect = "subject"
+						frame.subject = frame.predicate = undefined
+					}
+				} else if (tok.text === ";" && frame && frame.kind !== "collection" && frame.kind !== "quoted") {
+					frame.expect = "predicate"
+				} else if (tok.text === "," && frame && frame.kind !== "collection" && frame.kind !== "quoted") {
+					frame.expect = "object"
+				}
+				lastEnd = tok.end
+				continue
+			}
+
+			if (tok.type === "iri" || tok.type === "pname") {
+				const role = consume(tok.start)
+				attach(this.addTerm(tok.text, tok.start, tok.end, role, statement, quoted()), role)
+			} else if (tok.type === "keyword" && tok.text === "a") {
+				const role = consume(tok.start)
+				attach({ iri: RDF_TYPE, range: this.rangeOf(tok.start, tok.end) }, role)
+			} else if (tok.type === "bnode") {
+				const role = consume(tok.start)
+				const node: BlankNodeNode = { range: this.rangeOf(tok.start, tok.end), label: tok.text.slice(2), role, statement }
+				this.blankNodes.push(node)
+				attach(node, role)
+			} else if (tok.type === "literal" || tok.type === "number" || tok.type === "boolean") {
+				const role = consume(tok.start)
+				attach(this.addLiteral(tok, role, statement), role)
+			} else {
+				consume(tok.start)
+			}
+			lastEnd = tok.end
+		}
+
+		this.expectation = expectationOf(top())
+		while (this.expectations.length < this.tokens.length) this.expectations.push(this.expectation)
+		if (stack.length > 0) {
+			this.missingTerminators.push(lastEnd)
+			closeStatement(lastEnd, false)
+		}
+		// An unclosed block runs to the end of the document
+		if (block) {
+			block.end = lastEnd
+			block.range = this.rangeOf(block.start, lastEnd)
+		}
+		// N-Quads labels follow the object, so graphs are assigned once statements are complete
+		for (const triple of this.triples) triple.graph = this.statements[triple.statement]?.graph
+	}
+
+	private nextCode(k: number): Token | undefined {
+		for (let j = k + 1; j < this.tokens.length; j++) {
+			if (this.tokens[j].type !== "comment") return this.tokens[j]
+		}
+		return undefined
+	}
+
+	// Returns the index of the directive's last token
+	private directive(k: number): number {
+		const keyword = this.tokens[k]
+		const sparql = !keyword.text.startsWith("@")
+		const isPrefix = /prefix$/i.test(keyword.text)
+		const label = isPrefix ? this.tokens[k + 1] : undefined
+		const target = this.tokens[k + (isPrefix ? 2 : 1)]
+		let last = k + (isPrefix ? 2 : 1)
+		if (!sparql && this.tokens[last + 1]?.text === ".") last++
+		last = Math.min(last, this.tokens.length - 1)
+
+		if (target?.type === "iri") {
+			const resolved = resolveLabel(target.text, {}, this.base) ?? target.text.slice(1, -1)
+			if (isPrefix && label?.type === "pname" && label.text.endsWith(":")) {
+				this.declared[label.text.slice(0, -1)] = resolved
+				this.prefixes.push({
+					prefix: label.text.slice(0, -1),
+					iri: resolved,
+					range: this.rangeOf(label.start, label.end - 1),
+					declRange: this.rangeOf(keyword.start, this.tokens[last].end),
+					sparql,
+				})
+			} else if (!isPrefix) {
+				this.base = resolved
+			}
+		}
+		return last
+	}
+
+	private addTerm(surface: string, start: number, end: number, role: TermRole, statement: number, quoted = false): TermNode {
+		const iri = resolveLabel(surface, this.declared, this.base) ?? surface
+		const term: TermNode = { iri, surface, range: this.rangeOf(start, end), role, start, end, statement }
+		if (quoted) term.quoted = true
+		this.terms.push(term)
+		const owner = this.statements[statement]
+		if (role === "subject" && !quoted && owner && !owner.subject) owner.subject = term
+		return term
+	}
+
+	private addLiteral(tok: Token, role: TermRole, statement: number): LiteralNode {
+		const node: LiteralNode = { text: tok.text, value: tok.text, range: this.rangeOf(tok.start, tok.end), role, statement }
+		if (tok.type === "boolean") node.datatype = `${XSD}boolean`
+		else if (tok.type === "number") node.datatype = `${XSD}${numericType(tok.text)}`
+		if (tok.type === "literal") {
+			const close = literalBodyEnd(tok.text)
+			node.value = unescapeLiteral(tok.text.slice(0, close))
+			const suffix = tok.text.slice(close)
+			if (suffix.startsWith("@")) node.language = suffix.slice(1)
+			else if (suffix.startsWith("^^")) {
+				const datatype = this.addTerm(suffix.slice(2), tok.start + close + 2, tok.end, "datatype", statement)
+				node.datatype = datatype.iri
+			}
+		}
+		this.literals.push(node)
+		return node
+	}
+}
+
+/**
+ * Keeps one model per open document version so that every request and notification
+ * for the same version shares a single parse.
+ */
+export class SyntaxModelCache {
+	private models: Map<string, SyntaxModel> = new Map()
+
+	get(doc: TextDocument): SyntaxModel {
+		const cached = this.models.get(doc.uri)
+		if (cached && cached.version === doc.version && cached.text.length === doc.getText().length) return cached
+		const model = SyntaxModel.fromDocument(doc)
+		this.models.set(doc.uri, model)
+		return model
+	}
+
+	delete(uri: string) {
+		this.models.delete(uri)
+	}
+}
+
+function expectationOf(frame: Frame | undefined): Expectation {
+	if (!frame) return { role: "subject" }
+	if (frame.kind === "collection") return { role: "object" }
+	switch (frame.expect) {
+		case "subject":
+			return { role: "subject" }
+		case "predicate":
+			return { role: "predicate" }
+		case "object":
+			return {
+				role: "object",
+				subject: frame.subject && "iri" in frame.subject ? frame.subject.iri : undefined,
+				predicate: frame.predicate?.iri,
+			}
+		default:
+			return { role: null }
+	}
+}
+
+function numericType(text: string): string {
+	if (/[eE]/.test(text)) return "double"
+	return text.includes(".") ? "decimal" : "integer"
+}
+
+const ESCAPES: Record<string, string> = { t: "\t", b: "\b", n: "\n", r: "\r", f: "\f" }
+
+// `quoted` is the literal up to and including its closing quote
+function unescapeLiteral(quoted: string): string {
+	const quote = quoted.startsWith(quoted[0].repeat(3)) && quoted.length >= 6 ? 3 : 1
+	const body = quoted.slice(quote, quoted.length - quote)
+	return body.replace(/\\(u[0-9A-Fa-f]{4}|U[0-9A-Fa-f]{8}|.)/g, (_, esc: string) => {
+		if (esc.length > 1) return String.fromCodePoint(parseInt(esc.slice(1), 16))
+		return ESCAPES[esc] ?? esc
+	})
+}
+
+function literalBodyEnd(text: string): number {
+	const quoteChar = text[0]
+	const quote = text.startsWith(quoteChar.repeat(3)) ? quoteChar.repeat(3) : quoteChar
+	let j = quote.length
+	while (j < text.length) {
+		if (text[j] === "\\") {
+			j += 2
+			continue
+		}
+		if (text.startsWith(quote, j)) return j + quote.length
+		j++
+	}
+	return text.length
+}
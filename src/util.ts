@@ -1,20 +1,13 @@
 import path from "path"
 import fs from "fs"
+import { fileURLToPath } from "url"
 import { Range, TextDocument } from "vscode-languageserver/node"
 
 export function toFsPath(uri: string): string {
-	if (uri.startsWith("file://")) return path.normalize(new URL(uri).pathname)
+	if (uri.startsWith("file://")) return fileURLToPath(uri)
 	return path.normalize(uri)
 }
 
-export function offsetToLineInfo(text: string, offset: number) {
-	if (offset < 0) return { line: 0, character: 0 }
-	const lines = text.slice(0, offset).split(/\r?\n/)
-	const line = lines.length - 1
-	const character = lines[lines.length - 1]?.length ?? 0
-	return { line, character }
-}
-
 export function detectPrefixAtPosition(
 	doc: TextDocument,
 	position: { line: number; character: number },
@@ -88,3 +81,92 @@ export function rangeMatchesWord(uri: string, range: Range, word: string, doc: T
 	}
 	return true
 }
+
+export function editDistance(a: string, b: string): number {
+	if (a === b) return 0
+	let prev = Array.from({ length: b.length + 1 }, (_, j) => j)
+	for (let i = 1; i <= a.length; i++) {
+		const curr = [i]
+		for (let j = 1; j <= b.length; j++) {
+			const cost = a[i - 1] === b[j - 1] ? 0 : 1
+			curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + cost)
+		}
+		prev = curr
+	}
+	return prev[b.length]
+}
+
+/**
+ * Resolves a Turtle term spelling to an absolute IRI: `<relative>` against the base,
+ * `prefix:local` through the prefix map (local escapes removed). Null when the prefix is
+ * unknown or the label is not an IRI reference.
+ */
+export function resolveLabel(label: string, prefixes: Record<string, string>, base: string): string | null {
+	if (label.startsWith("<") && label.endsWith(">")) {
+		const ref = label.slice(1, -1)
+		if (/^[A-Za-z][\w+.\-]*:/.test(ref)) return ref
+		try {
+			return new URL(ref, base).toString()
+		} catch {
+			return ref
+		}
+	}
+	const idx = label.indexOf(":")
+	if (idx < 0) return null
+	const prefix = label.slice(0, idx)
+	const namespace = prefixes[prefix] ?? (prefix === "" ? prefixes[":"] : undefined)
+	if (namespace === undefined) return null
+	return namespace + label.slice(idx + 1).replace(/\\(.)/g, "$1")
+}
+
+// Everything up to the last `#` or `/`
+export function namespaceOf(iri: string): string {
+	const cut = Math.max(iri.lastIndexOf("#"), iri.lastIndexOf("/"))
+	return cut < 0 ? iri : iri.slice(0, cut + 1)
+}
+
+/**
+ * Compiles a glob over `/`-separated relative paths. Supports `**`, `*`, `?`, `[...]` and
+ * `{a,b}`; a pattern without a slash matches the file name in any directory.
+ */
+export function globToRegExp(glob: string): RegExp {
+	const pattern = glob.includes("/") ? glob.replace(/^\.?\//, "") : `**/${glob}`
+	let source = ""
+	let braces = 0
+	for (let i = 0; i < pattern.length; i++) {
+		const ch = pattern[i]
+		if (ch === "*" && pattern[i + 1] === "*") {
+			const slash = pattern[i + 2] === "/"
+			source += slash ? "(?:.*/)?" : ".*"
+			i += slash ? 2 : 1
+		} else if (ch === "*") {
+			source += "[^/]*"
+		} else if (ch === "?") {
+			source += "[^/]"
+		} else if (ch === "[") {
+			const close = pattern.indexOf("]", i + 1)
+			if (close < 0) {
+				source += "\\["
+				continue
+			}
+			source += `[${pattern.slice(i + 1, close).replace(/^!/, "^").replace(/\\/g, "\\\\")}]`
+			i = close
+		} else if (ch === "{") {
+			braces++
+			source += "(?:"
+		} else if (ch === "}" && braces > 0) {
+			braces--
+			source += ")"
+		} else if (ch === "," && braces > 0) {
+			source += "|"
+		} else {
+			source += ch.replace(/[.+^$()|\\]/g, "\\$&")
+		}
+	}
+	return new RegExp(`^${source}$`)
+}
+
+export function matchesGlobs(relativePath: string, globs: string[]): boolean {
+	const normalized = relativePath.split(path.sep).join("/")
+	return globs.some((glob) => globToRegExp(glob).test(normalized))
+}
@@ -0,0 +1,50 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { TextDocument } from "vscode-languageserver-textdocument"
+import { FormattingEngine } from "../src/formatter"
+
+const options = { tabSize: 2, insertSpaces: true }
+const engine = new FormattingEngine()
+
+function format(text: string): string {
+	const doc = TextDocument.create("file:///test.ttl", "turtle", 1, text)
+	return TextDocument.applyEdits(doc, engine.format(doc, options))
+}
+
+describe("FormattingEngine", () => {
+	it("puts each predicate on its own line and keeps objects together", () => {
+		assert.equal(
+			format(`@prefix ex: <http://ex.org/> .\nex:a a ex:B;ex:p "x" , "y" ; ex:q [ ex:r 1 ] .\n`),
+			`@prefix ex: <http://ex.org/> .\n\nex:a a ex:B ;\n  ex:p "x", "y" ;\n  ex:q [ ex:r 1 ] .\n`
+		)
+	})
+
+	it("separates subjects by one blank line", () => {
+		assert.equal(
+			format(`@prefix ex: <http://ex.org/> .\n\n\n\nex:a ex:p ex:b .\nex:c ex:p ex:d .\n`),
+			`@prefix ex: <http://ex.org/> .\n\nex:a ex:p ex:b .\n\nex:c ex:p ex:d .\n`
+		)
+	})
+
+	it("leaves formatted documents alone", () => {
+		const text = `@prefix ex: <http://ex.org/> .\n\nex:a ex:p ex:b .\n`
+		const doc = TextDocument.create("file:///test.ttl", "turtle", 1, text)
+		assert.deepEqual(engine.format(doc, options), [])
+	})
+
+	it("leaves documents that do not tokenize alone", () => {
+		const doc = TextDocument.create("file:///test.ttl", "turtle", 1, `@prefix ex: <http://ex.org/> .\nex:a ex:p "open .\n`)
+		assert.deepEqual(engine.format(doc, options), [])
+	})
+
+	it("leaves statements with unseparated predicates alone", () => {
+		const doc = TextDocument.create("file:///test.ttl", "turtle", 1, `@prefix ex: <http://ex.org/> .\n\nex:a ex:p ex:b ex:c ex:d .\n`)
+		assert.deepEqual(engine.format(doc, options), [])
+	})
+
+	it("only rewrites the statements a range touches", () => {
+		const doc = TextDocument.create("file:///test.ttl", "turtle", 1, `ex:a   ex:p ex:b .\nex:c    ex:p   ex:d .\n`)
+		const range = { start: { line: 1, character: 0 }, end: { line: 1, character: 5 } }
+		assert.equal(TextDocument.applyEdits(doc, engine.formatRange(doc, range, options)), `ex:a   ex:p ex:b .\nex:c ex:p ex:d .\n`)
+	})
+})
@@ -0,0 +1,100 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { TextEdit } from "vscode-languageserver/node"
+import { TextDocument } from "vscode-languageserver-textdocument"
+import { Indexer } from "../src/indexer"
+import { PrefixEngine } from "../src/prefixes"
+import { SyntaxModel } from "../src/syntax"
+
+const TEXT = `@prefix foaf: <http://xmlns.com/foaf/0.1/> .
+@prefix ex: <http://ex.org/> . # ours
+@prefix unused: <http://unused.org/> .
+PREFIX dc: <http://purl.org/dc/terms/>
+
+ex:a foaf:name "A" ; dc:title "T" ; ex:p <http://ex.org/b> , <http://xmlns.com/foaf/0.1/knows> .
+`
+
+function setup(text = TEXT) {
+	const model = new SyntaxModel("file:///a.ttl", text)
+	const indexer = new Indexer(undefined)
+	indexer.reindexDocument(model.uri, text, model)
+	return { model, engine: new PrefixEngine(indexer, () => [model]) }
+}
+
+function apply(model: SyntaxModel, edits: TextEdit[]): string {
+	return TextDocument.applyEdits(TextDocument.create(model.uri, "turtle", 1, model.text), edits)
+}
+
+describe("PrefixEngine", () => {
+	it("sorts the declarations and drops unused ones when organizing", () => {
+		const { model, engine } = setup()
+		assert.equal(
+			apply(model, engine.edits(model, "organize")),
+			TEXT.replace(
+				/^[^]*?\n\n/,
+				`PREFIX dc: <http://purl.org/dc/terms/>\n@prefix ex: <http://ex.org/> . # ours\n@prefix foaf: <http://xmlns.com/foaf/0.1/> .\n\n`
+			)
+		)
+	})
+
+	it("removes unused declarations with their line", () => {
+		const { model, engine } = setup()
+		assert.equal(apply(model, engine.edits(model, "removeUnused")), TEXT.replace("@prefix unused: <http://unused.org/> .\n", ""))
+	})
+
+	it("converts between declaration styles, keeping comments", () => {
+		const { model, engine } = setup()
+		const sparql = apply(model, engine.edits(model, "sparqlStyle"))
+		assert.match(sparql, /^PREFIX ex: <http:\/\/ex.org\/> # ours$/m)
+		assert.doesNotMatch(sparql, /@prefix/)
+		assert.match(apply(model, engine.edits(model, "turtleStyle")), /^@prefix dc: <http:\/\/purl.org\/dc\/terms\/> \.$/m)
+	})
+
+	it("contracts full IRIs under declared namespaces", () => {
+		const { model, engine } = setup()
+		assert.match(apply(model, engine.edits(model, "contractIris")), /ex:p ex:b , foaf:knows \.$/m)
+	})
+
+	it("leaves line-based documents alone", () => {
+		const model = new SyntaxModel("file:///a.nt", "<http://ex.org/a> <http://ex.org/p> <http://ex.org/b> .\n")
+		const { engine } = setup()
+		assert.deepEqual(engine.edits(model, "contractIris"), [])
+	})
+
+	it("renames a prefix in its declaration and its prefixed names", () => {
+		const { model, engine } = setup()
+		const edit = engine.renamePrefix(model, "ex", "my")
+		assert.equal(
+			apply(model, edit!.changes![model.uri]),
+			TEXT.replace("@prefix ex:", "@prefix my:").replace("ex:a", "my:a").replace("ex:p", "my:p")
+		)
+		assert.equal(engine.renamePrefix(model, "ex", "foaf"), null)
+	})
+
+	it("rejects rename targets that cannot be written", () => {
+		const { model, engine } = setup()
+		const label = model.prefixes.find((p) => p.prefix === "ex")!.range.start
+		assert.throws(() => engine.rename(model, label, "not a prefix"), /not a valid prefix name/)
+	})
+
+	it("moves a namespace in declarations and full IRIs", () => {
+		const { model, engine } = setup()
+		const edit = engine.changeNamespace("http://ex.org/", "http://example.com/ns#")
+		assert.equal(
+			apply(model, edit.changes![model.uri]),
+			TEXT.replace("<http://ex.org/> .", "<http://example.com/ns#> .").replace("<http://ex.org/b>", "<http://example.com/ns#b>")
+		)
+	})
+
+	it("changes nothing for a namespace that is not an absolute IRI", () => {
+		const { engine } = setup()
+		assert.deepEqual(engine.changeNamespace("ex.org/", "http://example.com/"), { changes: {} })
+	})
+
+	it("removes the declaration at a position", () => {
+		const { model, engine } = setup()
+		const edit = engine.removeDeclaration(model, model.prefixes[2].range.start)
+		assert.equal(apply(model, [edit!]), TEXT.replace("@prefix unused: <http://unused.org/> .\n", ""))
+		assert.equal(engine.removeDeclaration(model, { line: 5, character: 0 }), null)
+	})
+})
@@ -0,0 +1,93 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { CodeActionKind, Position, TextEdit } from "vscode-languageserver/node"
+import { TextDocument } from "vscode-languageserver-textdocument"
+import { Indexer } from "../src/indexer"
+import { RefactoringEngine } from "../src/refactorings"
+import { SyntaxModel } from "../src/syntax"
+
+const PREFIX = "@prefix ex: <http://ex.org/> .\n\n"
+
+function setup(body: string) {
+	const text = `${PREFIX}${body}`
+	const model = new SyntaxModel("file:///a.ttl", text)
+	const indexer = new Indexer(undefined)
+	indexer.reindexDocument(model.uri, text, model)
+	return { model, engine: new RefactoringEngine(indexer) }
+}
+
+function apply(model: SyntaxModel, edits: TextEdit[]): string {
+	return TextDocument.applyEdits(TextDocument.create(model.uri, "turtle", 1, model.text), edits)
+}
+
+// Text after the action of the kind offered at the position, null when none is
+function refactor(body: string, position: Position, kind: string): string | null {
+	const { model, engine } = setup(body)
+	const action = engine.actions(model, { start: position, end: position }, [kind])[0]
+	return action ? apply(model, action.edit!.changes![model.uri]).slice(PREFIX.length) : null
+}
+
+describe("RefactoringEngine", () => {
+	it("extracts a property list into a block after its statement", () => {
+		assert.equal(
+			refactor(`ex:a ex:address [ ex:city "Bern" ] .\n`, { line: 2, character: 20 }, CodeActionKind.RefactorExtract),
+			`ex:a ex:address ex:a-address .\n\nex:a-address ex:city "Bern" .\n`
+		)
+	})
+
+	it("extracts under a given name and rejects names that are no terms", () => {
+		const { model, engine } = setup(`ex:a ex:address [ ex:city "Bern" ] .\n`)
+		const position = { line: 2, character: 20 }
+		const edit = engine.extractAt(model, position, "<http://ex.org/home>")
+		assert.match(apply(model, edit!.changes![model.uri]), /^<http:\/\/ex.org\/home> ex:city "Bern" \.$/m)
+		assert.equal(engine.extractAt(model, position, "not a name"), null)
+	})
+
+	it("inlines a subject referenced once", () => {
+		assert.equal(
+			refactor(`ex:b ex:knows ex:c .\n\nex:c ex:name "C" .\n`, { line: 4, character: 1 }, CodeActionKind.RefactorInline),
+			`ex:b ex:knows [ ex:name "C" ] .\n`
+		)
+	})
+
+	it("does not inline a subject referenced twice", () => {
+		const body = `ex:b ex:knows ex:c .\n\nex:d ex:knows ex:c .\n\nex:c ex:name "C" .\n`
+		assert.equal(refactor(body, { line: 6, character: 1 }, CodeActionKind.RefactorInline), null)
+	})
+
+	it("merges the blocks of a subject into the first", () => {
+		assert.equal(
+			refactor(`ex:a ex:p 1 .\n\nex:a ex:q 2 .\n\nex:a ex:r 3 .\n`, { line: 2, character: 1 }, CodeActionKind.RefactorRewrite),
+			`ex:a ex:p 1 ;\n    ex:q 2 ;\n    ex:r 3 .\n`
+		)
+	})
+
+	it("splits a block into one per predicate", () => {
+		assert.equal(
+			refactor(`ex:a ex:p 1 ;\n    ex:q [ ex:r 2 ; ex:s 3 ] .\n`, { line: 2, character: 1 }, CodeActionKind.RefactorRewrite),
+			`ex:a ex:p 1 .\nex:a ex:q [ ex:r 2 ; ex:s 3 ] .\n`
+		)
+	})
+
+	it("breaks the line before the closer of a list that ends in a comment", () => {
+		assert.equal(
+			refactor(`ex:a ex:p ex:b .\n\nex:b ex:q ex:c # note\n  .\n`, { line: 4, character: 1 }, CodeActionKind.RefactorInline),
+			`ex:a ex:p [ ex:q ex:c # note\n] .\n`
+		)
+		assert.equal(
+			refactor(`ex:a ex:p ex:b # first\n  .\n\nex:a ex:q ex:c # note\n  .\n`, { line: 2, character: 1 }, CodeActionKind.RefactorRewrite),
+			`ex:a ex:p ex:b # first\n  ;\n  ex:q ex:c # note\n.\n`
+		)
+		assert.equal(
+			refactor(`ex:a ex:p [ ex:q ex:c # note\n ] .\n`, { line: 2, character: 12 }, CodeActionKind.RefactorExtract),
+			`ex:a ex:p ex:a-p .\n\nex:a-p ex:q ex:c # note\n.\n`
+		)
+	})
+
+	it("offers nothing for line-based documents", () => {
+		const model = new SyntaxModel("file:///a.nt", "<http://ex.org/a> <http://ex.org/p> <http://ex.org/b> .\n")
+		const { engine } = setup("")
+		const start = { line: 0, character: 1 }
+		assert.deepEqual(engine.actions(model, { start, end: start }), [])
+	})
+})
@@ -0,0 +1,110 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { Parser } from "n3"
+import { containsShapes, ShaclValidator, shaclResultsToDiagnostics } from "../src/shacl"
+import { SyntaxModel } from "../src/syntax"
+
+const PREFIXES = `@prefix ex: <http://ex.org/> .
+@prefix sh: <http://www.w3.org/ns/shacl#> .
+@prefix xsd: <http://www.w3.org/2001/XMLSchema#> .
+`
+
+const SHAPES = `${PREFIXES}
+ex:PersonShape a sh:NodeShape ;
+	sh:targetClass ex:Person ;
+	sh:property [ sh:path ex:name ; sh:minCount 1 ; sh:datatype xsd:string ; sh:pattern "^[A-Z]" ] ;
+	sh:property [ sh:path ex:age ; sh:maxCount 1 ; sh:minInclusive 0 ; sh:maxExclusive 150 ] ;
+	sh:property [ sh:path ex:born ; sh:minInclusive "1900-01-01"^^xsd:date ] ;
+	sh:property [ sh:path ex:status ; sh:in ( "active" "retired" ) ] ;
+	sh:property [ sh:path ex:knows ; sh:class ex:Person ] .
+`
+
+const parse = (text: string) => new Parser({ format: "Turtle" }).parse(text)
+const validator = new ShaclValidator(parse(SHAPES))
+
+// Constraint components violated by the data, without their namespace
+function violations(data: string): string[] {
+	return validator
+		.validate(parse(`${PREFIXES}${data}`))
+		.map((r) => r.sourceConstraintComponent.replace("http://www.w3.org/ns/shacl#", ""))
+		.sort()
+}
+
+describe("ShaclValidator", () => {
+	it("accepts conforming data", () => {
+		assert.deepEqual(
+			violations(`ex:ann a ex:Person ; ex:name "Ann" ; ex:age 40 ; ex:born "1980-05-01"^^xsd:date ; ex:status "active" .`),
+			[]
+		)
+	})
+
+	it("checks cardinality", () => {
+		assert.deepEqual(violations(`ex:ann a ex:Person ; ex:age 40, 41 .`), ["MaxCountConstraintComponent", "MinCountConstraintComponent"])
+	})
+
+	it("checks datatypes, patterns and enumerations", () => {
+		assert.deepEqual(violations(`ex:ann a ex:Person ; ex:name 12 ; ex:status "gone" .`), [
+			"DatatypeConstraintComponent",
+			"InConstraintComponent",
+			"PatternConstraintComponent",
+		])
+	})
+
+	it("compares numbers across numeric datatypes", () => {
+		assert.deepEqual(violations(`ex:ann a ex:Person ; ex:name "Ann" ; ex:age "150"^^xsd:decimal .`), ["MaxExclusiveConstraintComponent"])
+		assert.deepEqual(violations(`ex:ann a ex:Person ; ex:name "Ann" ; ex:age -1.5 .`), ["MinInclusiveConstraintComponent"])
+	})
+
+	it("compares dates as dates and rejects values of another kind", () => {
+		assert.deepEqual(violations(`ex:ann a ex:Person ; ex:name "Ann" ; ex:born "1899-12-31"^^xsd:date .`), [
+			"MinInclusiveConstraintComponent",
+		])
+		const results = validator.validate(parse(`${PREFIXES}ex:ann a ex:Person ; ex:name "Ann" ; ex:born 1980 .`))
+		assert.equal(results.length, 1)
+		assert.match(results[0].resultMessage, /not comparable/)
+	})
+
+	it("checks the class of values against the data", () => {
+		assert.deepEqual(violations(`ex:ann a ex:Person ; ex:name "Ann" ; ex:knows ex:bob .`), ["ClassConstraintComponent"])
+		assert.deepEqual(violations(`ex:ann a ex:Person ; ex:name "Ann" ; ex:knows ex:bob .\nex:bob a ex:Person ; ex:name "Bob" .`), [])
+	})
+
+	it("only validates targeted nodes", () => {
+		assert.deepEqual(violations(`ex:rock ex:age 4000000000 .`), [])
+	})
+
+	it("only validates target nodes the data mentions", () => {
+		const shape = `${PREFIXES}ex:AliceShape sh:targetNode ex:alice ; sh:property [ sh:path ex:name ; sh:minCount 1 ] .`
+		const named = new ShaclValidator(parse(shape))
+		assert.equal(named.validate(parse(`${PREFIXES}ex:bob ex:name "Bob" .`)).length, 0)
+		assert.equal(named.validate(parse(`${PREFIXES}ex:bob ex:knows ex:alice .`)).length, 1)
+	})
+
+	it("accepts classes the workspace gives a value", () => {
+		const typesOf = (iri: string) => (iri === "http://ex.org/bob" ? ["http://ex.org/Person"] : [])
+		const workspace = new ShaclValidator(parse(SHAPES), typesOf)
+		assert.equal(workspace.validate(parse(`${PREFIXES}ex:ann a ex:Person ; ex:name "Ann" ; ex:knows ex:bob .`)).length, 0)
+		assert.equal(workspace.validate(parse(`${PREFIXES}ex:ann a ex:Person ; ex:name "Ann" ; ex:knows ex:carl .`)).length, 1)
+	})
+})
+
+describe("SHACL helpers", () => {
+	it("recognises documents that declare shapes", () => {
+		assert.ok(containsShapes(parse(SHAPES)))
+		assert.ok(!containsShapes(parse(`${PREFIXES}ex:ann a ex:Person .`)))
+	})
+
+	it("reports results on the focus node of the document", () => {
+		const text = `${PREFIXES}ex:ann a ex:Person .\n`
+		const model = new SyntaxModel("file:///data.ttl", text)
+		const diagnostics = shaclResultsToDiagnostics(model, validator.validate(model.quads!))
+		assert.equal(diagnostics.length, 1)
+		assert.equal(diagnostics[0].range.start.line, 3)
+	})
+
+	it("drops results on nodes the document does not contain", () => {
+		const model = new SyntaxModel("file:///data.ttl", `${PREFIXES}ex:bob ex:name "Bob" .\n`)
+		const results = validator.validate(parse(`${PREFIXES}ex:ann a ex:Person .`))
+		assert.deepEqual(shaclResultsToDiagnostics(model, results), [])
+	})
+})
@@ -0,0 +1,101 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { formatOf } from "../src/formats"
+import { SyntaxModel } from "../src/syntax"
+
+const PREFIX = "@prefix ex: <http://ex.org/> .\n"
+
+describe("formatOf", () => {
+	it("prefers the language id over the extension", () => {
+		assert.equal(formatOf("file:///a.ttl", "trig"), "trig")
+		assert.equal(formatOf("file:///a.nt", "n-triples"), "ntriples")
+	})
+
+	it("falls back to the extension, then to Turtle", () => {
+		assert.equal(formatOf("file:///a.nq"), "nquads")
+		assert.equal(formatOf("file:///a.N3", "plaintext"), "n3")
+		assert.equal(formatOf("file:///a.txt"), "turtle")
+	})
+})
+
+describe("SyntaxModel", () => {
+	it("records prefixes, terms and triples with their ranges", () => {
+		const model = new SyntaxModel("file:///a.ttl", `${PREFIX}ex:a ex:p "x"@en .\n`)
+		assert.deepEqual(model.prefixMap(), { ex: "http://ex.org/" })
+		assert.deepEqual(
+			model.terms.map((t) => [t.iri, t.role]),
+			[
+				["http://ex.org/a", "subject"],
+				["http://ex.org/p", "predicate"],
+			]
+		)
+		assert.equal(model.literals[0].value, "x")
+		assert.equal(model.literals[0].language, "en")
+		assert.deepEqual(model.termAt({ line: 1, character: 6 })?.range, {
+			start: { line: 1, character: 5 },
+			end: { line: 1, character: 9 },
+		})
+		assert.equal(model.triples.length, 1)
+	})
+
+	it("parses Turtle quads and reports the first grammar error", () => {
+		assert.equal(new SyntaxModel("file:///a.ttl", `${PREFIX}ex:a ex:p ex:b .\n`).quads?.length, 1)
+		const broken = new SyntaxModel("file:///a.ttl", `${PREFIX}ex:a ex:p .\n`)
+		assert.equal(broken.quads, null)
+		assert.equal(broken.parseError?.line, 1)
+	})
+
+	it("parses each format with its own grammar", () => {
+		const trig = new SyntaxModel("file:///a.trig", `${PREFIX}ex:g { ex:a ex:p ex:b }\n`)
+		assert.equal(trig.quads?.[0].graph.value, "http://ex.org/g")
+		assert.equal(trig.graphs.length, 1)
+
+		const nquads = new SyntaxModel("file:///a.nq", "<http://ex.org/a> <http://ex.org/p> <http://ex.org/b> <http://ex.org/g> .\n")
+		assert.equal(nquads.quads?.[0].graph.value, "http://ex.org/g")
+
+		const rules = new SyntaxModel("file:///a.n3", `${PREFIX}{ ?x ex:p ?y } => { ?y ex:q ?x } .\n`)
+		assert.notEqual(rules.quads, null)
+	})
+
+	it("rejects what the format does not allow", () => {
+		assert.equal(new SyntaxModel("file:///a.nt", `${PREFIX}ex:a ex:p ex:b .\n`).quads, null)
+		assert.equal(new SyntaxModel("file:///a.ttl", `${PREFIX}ex:g { ex:a ex:p ex:b }\n`).quads, null)
+		assert.equal(new SyntaxModel("file:///a.ttl", `${PREFIX}{ ?x ex:p ?y } => { ?y ex:q ?x } .\n`).quads, null)
+	})
+
+	it("parses RDF-star and marks quoted terms", () => {
+		const model = new SyntaxModel("file:///a.ttl", `${PREFIX}<< ex:a ex:p ex:b >> ex:certainty 0.9 .\n`)
+		assert.equal(model.quads?.length, 1)
+		assert.ok(model.usesRdfStar)
+		assert.equal(model.quotedTriples.length, 1)
+		assert.deepEqual(
+			model.terms.filter((t) => t.quoted).map((t) => t.iri),
+			["http://ex.org/a", "http://ex.org/p", "http://ex.org/b"]
+		)
+		assert.equal(model.subjects.length, 0)
+	})
+
+	it("judges the expectation from the text before the offset", () => {
+		const text = `${PREFIX}ex:a ex:p `
+		const model = new SyntaxModel("file:///a.ttl", text)
+		assert.deepEqual(model.expectationAt(text.length), {
+			role: "object",
+			subject: "http://ex.org/a",
+			predicate: "http://ex.org/p",
+		})
+		assert.equal(model.expectationAt(PREFIX.length).role, "subject")
+	})
+
+	it("looks up expectations inside the text without parsing it again", () => {
+		const text = `${PREFIX}ex:a ex:p ex:b ; ex:q [ ex:r ex:s ] .\n`
+		const model = new SyntaxModel("file:///a.ttl", text)
+		assert.equal(model.expectationAt(text.indexOf("; ") + 2).role, "predicate")
+		assert.deepEqual(model.expectationAt(text.indexOf("ex:q ") + 5), {
+			role: "object",
+			subject: "http://ex.org/a",
+			predicate: "http://ex.org/q",
+		})
+		assert.equal(model.expectationAt(text.indexOf("[ ") + 2).role, "predicate")
+		assert.equal(model.expectationAt(text.indexOf(".\n") + 2).role, "subject")
+	})
+})